@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fsExtra from 'fs-extra';
+import { JSDOM } from 'jsdom';
+import axios from 'axios';
+import { Config } from './config';
+import { RetryPolicy } from './retryPolicy';
+
+/**
+ * File extensions for common media MIME types
+ */
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/svg+xml': '.svg',
+  'image/bmp': '.bmp',
+  'image/x-icon': '.ico',
+  'image/vnd.microsoft.icon': '.ico',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/ogg': '.ogv',
+  'video/quicktime': '.mov',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav',
+  'audio/webm': '.weba',
+  'audio/flac': '.flac'
+};
+
+/**
+ * Elements and attributes that reference media
+ */
+const MEDIA_ATTRIBUTES = [
+  { selector: 'img[src]', attr: 'src' },
+  { selector: 'video[src]', attr: 'src' },
+  { selector: 'video[poster]', attr: 'poster' },
+  { selector: 'audio[src]', attr: 'src' },
+  { selector: 'source[src]', attr: 'src' }
+];
+
+/**
+ * A downloaded asset stored on disk
+ */
+interface StoredAsset {
+  fileName: string;
+  filePath: string;
+}
+
+/**
+ * Downloads media referenced by a page and points the references at local copies
+ */
+export class AssetDownloader {
+  // Asset URL -> first stored copy, shared by all pages in the run
+  private downloads = new Map<string, Promise<StoredAsset | null>>();
+
+  /**
+   * Constructor
+   * @param config Configuration with the asset options, user agent and retry settings
+   * @param retryPolicy Retries of failed downloads, shared with page requests to track failing hosts together
+   */
+  constructor(private config: Config, private retryPolicy = new RetryPolicy(config)) {}
+
+  /**
+   * Download the media of a processed page into an assets folder next to its Markdown file
+   * @param html Processed HTML content
+   * @param pageUrl The page URL (for resolving relative media URLs)
+   * @param dirPath Directory the Markdown file is written to
+   * @returns HTML with media references rewritten to the local copies
+   */
+  public async localize(html: string, pageUrl: string, dirPath: string): Promise<string> {
+    const dom = new JSDOM(html);
+    const document = dom.window.document;
+    const assetDir = path.join(dirPath, this.config.assets.dir);
+    const tasks: Promise<void>[] = [];
+
+    for (const { selector, attr } of MEDIA_ATTRIBUTES) {
+      document.querySelectorAll(selector).forEach(element => {
+        const value = element.getAttribute(attr)!;
+        tasks.push(this.store(value, pageUrl, assetDir).then(localPath => {
+          if (localPath) element.setAttribute(attr, localPath);
+        }));
+      });
+    }
+
+    // srcset lists several candidates, each one is downloaded and rewritten
+    document.querySelectorAll('img[srcset], source[srcset]').forEach(element => {
+      tasks.push(this.localizeSrcset(element, pageUrl, assetDir));
+    });
+
+    await Promise.all(tasks);
+    return document.documentElement.outerHTML;
+  }
+
+  /**
+   * Download every candidate of a srcset attribute and rewrite it. Images
+   * without a src get the largest candidate as src.
+   * @param element img or source element
+   * @param pageUrl The page URL
+   * @param assetDir Directory for the assets
+   */
+  private async localizeSrcset(element: Element, pageUrl: string, assetDir: string): Promise<void> {
+    const candidates = this.parseSrcset(element.getAttribute('srcset')!);
+    const localized = await Promise.all(candidates.map(async candidate => ({
+      ...candidate,
+      url: await this.store(candidate.url, pageUrl, assetDir) || candidate.url
+    })));
+
+    element.setAttribute('srcset', localized.map(c => c.descriptor ? `${c.url} ${c.descriptor}` : c.url).join(', '));
+
+    if (element.tagName === 'IMG' && !element.getAttribute('src') && localized.length > 0) {
+      const largest = localized.reduce((best, c) => this.descriptorSize(c.descriptor) > this.descriptorSize(best.descriptor) ? c : best);
+      element.setAttribute('src', largest.url);
+    }
+  }
+
+  /**
+   * Split a srcset attribute into URL and descriptor pairs
+   * @param srcset srcset attribute value
+   * @returns Candidates in order
+   */
+  private parseSrcset(srcset: string): { url: string; descriptor: string }[] {
+    return srcset
+      .split(/,\s+/)
+      .map(candidate => candidate.trim().split(/\s+/))
+      .filter(parts => parts[0])
+      .map(([url, descriptor]) => ({ url, descriptor: descriptor || '' }));
+  }
+
+  /**
+   * Numeric size of a srcset descriptor (800w, 2x) for picking the largest
+   * @param descriptor Descriptor string
+   * @returns Size, 1 when missing
+   */
+  private descriptorSize(descriptor: string): number {
+    return parseFloat(descriptor) || 1;
+  }
+
+  /**
+   * Download an asset (once per run) and copy it into the asset directory
+   * @param reference Media URL as found in the page
+   * @param pageUrl The page URL
+   * @param assetDir Directory for the assets
+   * @returns Path of the local copy relative to the Markdown file, or null if not stored
+   */
+  private async store(reference: string, pageUrl: string, assetDir: string): Promise<string | null> {
+    let assetUrl: string;
+    try {
+      assetUrl = new URL(reference, pageUrl).toString();
+    } catch {
+      return null;
+    }
+    if (!/^https?:/i.test(assetUrl)) return null;
+
+    let download = this.downloads.get(assetUrl);
+    if (!download) {
+      download = this.download(assetUrl, assetDir);
+      this.downloads.set(assetUrl, download);
+    }
+
+    const asset = await download;
+    if (!asset) return null;
+
+    // Same content in the same folder is stored once, other folders get a copy
+    const target = path.join(assetDir, asset.fileName);
+    if (path.resolve(target) !== path.resolve(asset.filePath) && !fs.existsSync(target)) {
+      await fsExtra.ensureDir(assetDir);
+      await fs.promises.copyFile(asset.filePath, target);
+    }
+
+    return `${this.config.assets.dir}/${asset.fileName}`;
+  }
+
+  /**
+   * Fetch an asset, check its type and size and save it under its content hash
+   * @param assetUrl Absolute asset URL
+   * @param assetDir Directory to save the first copy in
+   * @returns Stored asset, or null if it was rejected or could not be fetched
+   */
+  private async download(assetUrl: string, assetDir: string): Promise<StoredAsset | null> {
+    try {
+      const { result: response } = await this.retryPolicy.execute(assetUrl, () => axios.get(assetUrl, {
+        timeout: this.config.timeout,
+        responseType: 'arraybuffer',
+        maxContentLength: this.config.assets.maxBytes,
+        headers: {
+          'User-Agent': this.config.userAgent,
+          'Accept': this.config.assets.allowedMimeTypes.join(',')
+        }
+      }), 'asset');
+
+      const mimeType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      if (!this.isAllowedType(mimeType)) {
+        console.log(`⏭️ Skipped asset ${assetUrl}: type ${mimeType || 'unknown'} is not allowed`);
+        return null;
+      }
+
+      const data = Buffer.from(response.data);
+      if (data.length > this.config.assets.maxBytes) {
+        console.log(`⏭️ Skipped asset ${assetUrl}: ${data.length} bytes exceeds the limit`);
+        return null;
+      }
+
+      const hash = crypto.createHash('sha256').update(data).digest('hex').substring(0, 16);
+      const fileName = `${hash}${this.getExtension(mimeType, assetUrl)}`;
+      const filePath = path.join(assetDir, fileName);
+
+      await fsExtra.ensureDir(assetDir);
+      if (!fs.existsSync(filePath)) {
+        await fs.promises.writeFile(filePath, data);
+      }
+
+      console.log(`🖼️ Downloaded asset: ${assetUrl}`);
+      return { fileName, filePath };
+    } catch (error: any) {
+      if (error.message && error.message.includes('maxContentLength')) {
+        console.log(`⏭️ Skipped asset ${assetUrl}: exceeds the size limit of ${this.config.assets.maxBytes} bytes`);
+        return null;
+      }
+      console.error(`❌ Failed to download asset ${assetUrl}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check a MIME type against assets.allowedMimeTypes (supports image/* wildcards)
+   * @param mimeType MIME type without parameters
+   * @returns True if allowed
+   */
+  private isAllowedType(mimeType: string): boolean {
+    return this.config.assets.allowedMimeTypes.some(allowed => {
+      const pattern = allowed.toLowerCase();
+      return pattern.endsWith('/*')
+        ? mimeType.startsWith(pattern.slice(0, -1))
+        : mimeType === pattern;
+    });
+  }
+
+  /**
+   * File extension for an asset, from its MIME type or else its URL
+   * @param mimeType MIME type without parameters
+   * @param assetUrl Asset URL
+   * @returns Extension including the dot, or an empty string
+   */
+  private getExtension(mimeType: string, assetUrl: string): string {
+    if (MIME_EXTENSIONS[mimeType]) return MIME_EXTENSIONS[mimeType];
+    const ext = path.extname(new URL(assetUrl).pathname).toLowerCase();
+    return /^\.[a-z0-9]{1,5}$/.test(ext) ? ext : '';
+  }
+}
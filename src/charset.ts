@@ -0,0 +1,111 @@
+/**
+ * Byte order marks and the encoding they announce
+ */
+const BOMS: { bytes: number[]; charset: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], charset: 'utf-8' },
+  { bytes: [0xfe, 0xff], charset: 'utf-16be' },
+  { bytes: [0xff, 0xfe], charset: 'utf-16le' }
+];
+
+/**
+ * Characters of bytes 0x80-0x9F in Windows-1252, which Node's decoder reads as Latin-1
+ */
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Bytes searched for a <meta> charset declaration, as browsers do
+ */
+const PRESCAN_BYTES = 1024;
+
+/**
+ * Works out the character encoding of an HTML document and decodes it
+ */
+export class Charset {
+  /**
+   * Decode an HTML document. The encoding is taken from the byte order mark,
+   * then the Content-Type header, then <meta charset> or
+   * <meta http-equiv="Content-Type">. Without any of them the document is
+   * read as UTF-8 if it is valid UTF-8, and as Windows-1252 otherwise.
+   * @param data Raw bytes of the document
+   * @param contentType Content-Type header, if the document was fetched
+   * @returns Decoded text and the name of the encoding used
+   */
+  public static decode(data: Buffer, contentType = ''): { text: string; charset: string } {
+    const bom = BOMS.find(candidate => candidate.bytes.every((byte, i) => data[i] === byte));
+    if (bom) {
+      return { text: new TextDecoder(bom.charset).decode(data.subarray(bom.bytes.length)), charset: bom.charset };
+    }
+
+    const declared = this.normalize(this.fromContentType(contentType)) || this.normalize(this.fromMeta(data));
+    if (declared) {
+      return { text: this.decodeAs(data, declared), charset: declared };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), charset: 'utf-8' };
+    } catch {
+      // Most undeclared pages that aren't UTF-8 are Western European legacy pages
+      return { text: this.decodeAs(data, 'windows-1252'), charset: 'windows-1252' };
+    }
+  }
+
+  /**
+   * Decode bytes in a known encoding
+   * @param data Raw bytes
+   * @param charset Encoding name returned by normalize()
+   * @returns Decoded text
+   */
+  private static decodeAs(data: Buffer, charset: string): string {
+    const text = new TextDecoder(charset).decode(data);
+    // Curly quotes, dashes and the euro sign live in the range Node leaves as control characters
+    return charset === 'windows-1252'
+      ? text.replace(/[\x80-\x9f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80])
+      : text;
+  }
+
+  /**
+   * Read the charset parameter of a Content-Type header
+   * @param contentType Header value, e.g. text/html; charset=Shift_JIS
+   * @returns Charset label, or null if there is none
+   */
+  private static fromContentType(contentType: string): string | null {
+    const match = contentType.match(/;\s*charset\s*=\s*["']?([^"';\s]+)/i);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Find the charset declared in a <meta> tag near the start of the document
+   * @param data Raw bytes of the document
+   * @returns Charset label, or null if there is none
+   */
+  private static fromMeta(data: Buffer): string | null {
+    // The declaration is ASCII in every encoding this is used for, so Latin-1 reads it safely
+    const head = data.subarray(0, PRESCAN_BYTES).toString('latin1').replace(/<!--[\s\S]*?-->/g, '');
+
+    for (const tag of head.match(/<meta\s[^>]*>/gi) || []) {
+      // <meta charset="..."> or <meta http-equiv="Content-Type" content="text/html; charset=...">
+      const isHttpEquiv = /http-equiv\s*=\s*["']?content-type/i.test(tag);
+      if (!isHttpEquiv && /\scontent\s*=/i.test(tag)) continue;
+
+      const charset = tag.match(/charset\s*=\s*["']?\s*([^"'\s;/>]+)/i);
+      if (charset) return charset[1];
+    }
+    return null;
+  }
+
+  /**
+   * Turn a charset label into the name of an encoding the decoder supports
+   * @param label Label as declared, e.g. Shift_JIS, latin1 or x-sjis
+   * @returns Canonical encoding name, or null if the label is unknown
+   */
+  private static normalize(label: string | null): string | null {
+    if (!label) return null;
+    try {
+      const encoding = new TextDecoder(label.trim()).encoding;
+      // A page that says it is UTF-16 in ASCII-compatible bytes is actually UTF-8
+      return encoding.startsWith('utf-16') ? 'utf-8' : encoding;
+    } catch {
+      return null;
+    }
+  }
+}
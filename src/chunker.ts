@@ -0,0 +1,294 @@
+import { Config } from './config';
+
+/**
+ * A piece of a page, small enough to embed on its own
+ */
+export interface Chunk {
+  text: string;
+  // Headings the chunk is under, outermost first
+  headings: string[];
+  // Approximate token count
+  tokens: number;
+}
+
+/**
+ * A run of Markdown lines that is kept together
+ */
+interface Block {
+  text: string;
+  // Code blocks and tables are never split or used as overlap
+  atomic: boolean;
+  // Heading level, 0 for other blocks
+  level: number;
+  heading?: string;
+}
+
+/**
+ * Reference link definitions: [label]: url "title"
+ */
+const REFERENCE_DEFINITION = /^\s{0,3}\[([^\]]+)\]:\s*<?([^\s>]+)>?\s*((?:"[^"]*"|'[^']*'|\([^)]*\))?)\s*$/;
+
+/**
+ * Full and collapsed reference links: [text][label] / [text][]
+ */
+const REFERENCE_LINK = /(!?)\[((?:[^\[\]\\]|\\.)*)\]\[([^\]]*)\]/g;
+
+/**
+ * Inline code spans: a run of backticks up to the next run of the same length
+ */
+const CODE_SPAN = /(`+)(?!`).*?[^`]\1(?!`)/g;
+
+/**
+ * Splits Markdown into chunks at heading boundaries for RAG ingestion
+ */
+export class Chunker {
+  /**
+   * Split a Markdown document into chunks. Reference links become inline
+   * links first, so every chunk holds the URLs it links to.
+   * @param markdown Markdown content without the file header
+   * @param options Chunk size and overlap
+   * @returns Chunks in document order
+   */
+  public static split(markdown: string, options: Config['chunks']): Chunk[] {
+    const chunks: Chunk[] = [];
+    const headings: string[] = [];
+    let section: Block[] = [];
+
+    const flush = () => {
+      // Sections holding nothing but their heading add no content
+      if (section.some(block => block.level === 0)) {
+        chunks.push(...this.splitSection(section, [...headings], options));
+      }
+      section = [];
+    };
+
+    for (const block of this.parseBlocks(this.inlineReferences(markdown))) {
+      if (block.level > 0) {
+        flush();
+        headings.length = Math.min(headings.length, block.level - 1);
+        while (headings.length < block.level - 1) headings.push('');
+        headings.push(block.heading!);
+      }
+      section.push(block);
+    }
+    flush();
+
+    // Levels skipped in the document leave empty breadcrumb entries
+    chunks.forEach(chunk => chunk.headings = chunk.headings.filter(Boolean));
+    return chunks;
+  }
+
+  /**
+   * Approximate the number of tokens in a text (about four characters per token)
+   * @param text Text to measure
+   * @returns Token estimate
+   */
+  public static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Pack the blocks of one section into chunks of at most maxTokens
+   * @param blocks Blocks of the section, starting with its heading
+   * @param headings Breadcrumb of the section
+   * @param options Chunk size and overlap
+   * @returns Chunks of the section
+   */
+  private static splitSection(blocks: Block[], headings: string[], options: Config['chunks']): Chunk[] {
+    const texts: string[] = [];
+    let current: Block[] = [];
+
+    const join = (parts: Block[]) => parts.map(block => block.text).join('\n\n');
+
+    for (const block of blocks) {
+      // Pieces of long prose leave room for the overlap carried into the next chunk
+      const pieceTokens = Math.max(options.maxTokens - options.overlapTokens, Math.ceil(options.maxTokens / 2));
+      const pieces = block.atomic || this.estimateTokens(block.text) <= options.maxTokens
+        ? [block]
+        : this.splitText(block.text, pieceTokens).map(text => ({ text, atomic: false, level: 0 }));
+
+      for (const piece of pieces) {
+        if (current.length > 0 && this.estimateTokens(join([...current, piece])) > options.maxTokens) {
+          texts.push(join(current));
+
+          // The next chunk starts with the end of this one, unless that is code or a table
+          const last = current[current.length - 1];
+          const overlap = last.atomic || last.level > 0 ? '' : this.tail(last.text, options.overlapTokens);
+          const fits = overlap && this.estimateTokens(`${overlap}\n\n${piece.text}`) <= options.maxTokens;
+          current = fits ? [{ text: overlap, atomic: false, level: 0 }] : [];
+        }
+        current.push(piece);
+      }
+    }
+
+    if (current.length > 0) {
+      texts.push(join(current));
+    }
+
+    return texts.map(text => ({ text, headings, tokens: this.estimateTokens(text) }));
+  }
+
+  /**
+   * Split prose that is larger than a chunk at sentence or word boundaries
+   * @param text Paragraph text
+   * @param maxTokens Maximum piece size
+   * @returns Pieces in order
+   */
+  private static splitText(text: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * 4;
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const sentence of text.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g) || [text]) {
+      if (current && (current + sentence).length > maxChars) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      // Sentences longer than a chunk are cut between words
+      let rest = sentence;
+      while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars);
+        const at = cut > 0 ? cut : maxChars;
+        pieces.push(rest.substring(0, at).trim());
+        rest = rest.substring(at);
+      }
+      current += rest;
+    }
+    if (current.trim()) pieces.push(current.trim());
+
+    return pieces;
+  }
+
+  /**
+   * The end of a text, at most overlapTokens long and starting at a word
+   * @param text Text to take the end of
+   * @param overlapTokens Overlap size
+   * @returns End of the text, or an empty string
+   */
+  private static tail(text: string, overlapTokens: number): string {
+    const maxChars = overlapTokens * 4;
+    if (maxChars <= 0) return '';
+    if (text.length <= maxChars) return text;
+
+    const start = text.indexOf(' ', text.length - maxChars);
+    return start === -1 ? '' : text.substring(start + 1);
+  }
+
+  /**
+   * Replace reference links with inline links and drop their definitions
+   * @param markdown Markdown content
+   * @returns Markdown without reference links, code left as written
+   */
+  private static inlineReferences(markdown: string): string {
+    const lines = markdown.split('\n');
+    const normalize = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+    // Lines of fenced code, which are not Markdown
+    let fence: string | null = null;
+    const inCode = lines.map(line => {
+      const match = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (!match) return fence !== null;
+      if (!fence) {
+        fence = match[1];
+      } else if (match[1][0] === fence[0] && match[1].length >= fence.length) {
+        fence = null;
+      }
+      return true;
+    });
+
+    // The first definition of a label wins; parentheses are escaped as Turndown does for inline links
+    const definitions = new Map<string, string>();
+    lines.forEach((line, i) => {
+      const definition = !inCode[i] && line.match(REFERENCE_DEFINITION);
+      if (definition && !definitions.has(normalize(definition[1]))) {
+        const destination = definition[2].replace(/[()]/g, '\\$&');
+        definitions.set(normalize(definition[1]), definition[3] ? `${destination} ${definition[3]}` : destination);
+      }
+    });
+    if (definitions.size === 0) return markdown;
+
+    return lines.map((line, i) => {
+      if (inCode[i]) return line;
+      if (REFERENCE_DEFINITION.test(line)) return null;
+
+      const spans: string[] = [];
+      const masked = line.replace(CODE_SPAN, span => `\u0000${spans.push(span) - 1}\u0000`);
+      return masked.replace(REFERENCE_LINK, (match, bang: string, text: string, label: string) => {
+        const destination = definitions.get(normalize(label || text));
+        return destination ? `${bang}[${text}](${destination})` : match;
+      }).replace(/\u0000(\d+)\u0000/g, (_match, index: string) => spans[Number(index)]);
+    }).filter((line): line is string => line !== null).join('\n');
+  }
+
+  /**
+   * Split Markdown into blocks: headings, fenced code, tables and paragraphs
+   * @param markdown Markdown content
+   * @returns Blocks in order
+   */
+  private static parseBlocks(markdown: string): Block[] {
+    const blocks: Block[] = [];
+    const lines = markdown.split('\n');
+    let paragraph: string[] = [];
+
+    const endParagraph = () => {
+      const text = paragraph.join('\n').trim();
+      if (text) blocks.push({ text, atomic: false, level: 0 });
+      paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Fenced code runs until a closing fence of the same kind and at least the same length
+      const fence = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fence) {
+        endParagraph();
+        const code = [line];
+        while (++i < lines.length) {
+          code.push(lines[i]);
+          const close = lines[i].match(/^\s{0,3}(`{3,}|~{3,})\s*$/);
+          if (close && close[1][0] === fence[1][0] && close[1].length >= fence[1].length) break;
+        }
+        blocks.push({ text: code.join('\n'), atomic: true, level: 0 });
+        continue;
+      }
+
+      // ATX headings
+      const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (atx) {
+        endParagraph();
+        blocks.push({ text: line.trim(), atomic: false, level: atx[1].length, heading: atx[2] });
+        continue;
+      }
+
+      // Setext headings: one line of text underlined with = or -
+      const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+      if (underline && paragraph.length === 0 && line.trim() && !line.startsWith('|')) {
+        blocks.push({ text: `${line}\n${lines[i + 1]}`, atomic: false, level: underline[1][0] === '=' ? 1 : 2, heading: line.trim() });
+        i++;
+        continue;
+      }
+
+      // GFM tables and HTML tables stay in one block
+      if (line.startsWith('|') || /^\s*<table[\s>]/i.test(line)) {
+        endParagraph();
+        const table = [line];
+        const html = !line.startsWith('|');
+        while (i + 1 < lines.length && (html ? !/<\/table>\s*$/i.test(table[table.length - 1]) : lines[i + 1].startsWith('|'))) {
+          table.push(lines[++i]);
+        }
+        blocks.push({ text: table.join('\n'), atomic: true, level: 0 });
+        continue;
+      }
+
+      if (line.trim()) {
+        paragraph.push(line);
+      } else {
+        endParagraph();
+      }
+    }
+    endParagraph();
+
+    return blocks;
+  }
+}
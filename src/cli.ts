@@ -1,133 +1,750 @@
 #!/usr/bin/env node
 import * as fs from 'fs';
 import * as path from 'path';
-import { Config, configManager } from './config';
+import { Config, ConfigManager, DEFAULT_CONFIG, ENV_PREFIX } from './config';
+import { ConfigValidator } from './configValidator';
+import { Converter } from './converter';
 
 /**
- * Simple CLI handling for configuration options
+ * Exit codes, so scripts and CI pipelines can tell the outcomes of a run apart
  */
-export function processCLI(): Config {
-  const args = process.argv.slice(2);
-  let configUpdated = false;
-  const config = configManager.getConfig();
+const EXIT_CODES = {
+  success: 0,
+  // Configuration errors and unexpected exceptions
+  fatal: 1,
+  // Invalid command-line arguments
+  usage: 2,
+  // Some URLs failed, others were converted
+  partialFailure: 3,
+  // Every URL failed, or there was nothing to convert
+  failure: 4
+};
 
-  // Helper for showing help
-  const showHelp = () => {
-    console.log(`HTML to Markdown Converter
+/**
+ * A mistake on the command line, reported with a pointer to --help and exit code 2
+ */
+class UsageError extends Error {}
 
-Usage: node index.js [options]
+/**
+ * Result of parsing the options of a command
+ */
+export interface CliOptions {
+  config: Config;
+  // Arguments that are not options, such as the seed URLs of crawl
+  positionals: string[];
+  // List what would be converted without fetching pages
+  dryRun: boolean;
+  // True if any option changed the configuration
+  optionsApplied: boolean;
+}
 
-Options:
+const HELP = `HTML to Markdown Converter
+
+Usage:
+  crawl-web-to-md [convert] [options]      Convert the URL file, sitemap, feed or folder from the configuration
+  crawl-web-to-md crawl URL... [options]   Crawl from the seed URLs and convert every page found
+  crawl-web-to-md sitemap list [URL]       List the URLs of a sitemap (or the configured one) and exit
+  crawl-web-to-md config init [FILE]       Write the default configuration to config.json (or FILE)
+  crawl-web-to-md config show [options]    Print the configuration after config file, environment and options
+  crawl-web-to-md config validate [FILE]   Check config.json (or FILE) and exit
+
+Options take a value as --name=VALUE or --name VALUE.
+
+General:
   --help, -h                    Show this help message
-  --output-dir=DIR, -o=DIR      Set output directory
-  --url-file=FILE, -f=FILE      Set URL file source
-  --sitemap=URL, -s=URL         Set sitemap URL source
-  --max-concurrent=NUM, -c=NUM  Set maximum concurrent downloads
+  --config=FILE                 Read the configuration from FILE instead of ./config.json
+  --strict-config               Stop if the config file can't be parsed or has invalid fields
+  --dry-run                     List the URLs and output files without fetching any page
+
+Source:
+  --output-dir=DIR, -o DIR      Set output directory
+  --url-file=FILE, -f FILE      Set URL file source
+  --sitemap=URL, -s URL         Set sitemap URL source (a bare domain uses robots.txt)
+  --modified-since=DATE         Only convert sitemap URLs with a lastmod on or after DATE
+  --min-priority=NUM            Only convert sitemap URLs with at least this priority
+  --feed=URL                    Set RSS or Atom feed URL source
+  --feed-content                Convert the full content in the feed instead of fetching each article
+  --crawl=URL                   Crawl by following links from URL (repeatable)
+  --dir=DIR                     Convert local HTML files in DIR instead of fetching URLs
+  --include=GLOB                Files to convert in DIR (repeatable, default **/*.html and **/*.htm)
+  --base-url=URL                URL the local files were published at, for resolving links
+
+Fetching:
+  --max-concurrent=NUM, -c NUM  Set maximum concurrent downloads
+  --rate=NUM                    Requests per second per host (0 for no limit)
+  --max-per-host=NUM            Pages processed at once per host (0 for no limit)
+  --timeout=MS                  Timeout for HTTP requests in milliseconds
+  --retries=NUM                 Retry attempts for failed requests
+  --retry-delay=MS              Delay before the first retry in milliseconds, doubled after each one
+  --max-retry-delay=MS          Longest delay between retries in milliseconds
+  --retry-on=CODES              HTTP statuses to retry besides 5xx, comma-separated (default 408,429)
+  --no-retry-after              Ignore the Retry-After header and use the backoff delay
+  --circuit-breaker=NUM         Failures in a row after which a host is paused (0 to never pause)
+  --user-agent=TEXT             User-Agent header sent with every request
+  --unknown-types=POLICY        Responses of other types than HTML, text or known binaries: skip, html or text
+  --max-response-size=BYTES     Skip responses larger than this (0 for no limit)
+  --ignore-robots               Ignore robots.txt (only for sites you own)
+
+Crawling:
+  --max-depth=NUM               Maximum link depth from the seed URLs
+  --max-pages=NUM               Maximum number of pages to crawl
+  --scope=SCOPE                 Crawl scope: host, path or hosts
+  --allow-host=HOST             Add a host to the crawl allow-list (repeatable)
+
+URLs:
+  --strip-param=GLOB            Also remove matching query parameters from URLs (repeatable)
+  --no-canonical                Don't follow rel="canonical" when naming and deduplicating pages
+  --no-normalize                Treat every distinct URL as a separate page
+
+Content:
+  --exclude=SELECTOR            Also remove elements matching SELECTOR (repeatable)
+  --unwrap=SELECTOR             Also unwrap elements matching SELECTOR (repeatable)
+  --select=SELECTOR             Keep only the elements matching SELECTOR (repeatable)
+  --main-content                Extract the main content and drop menus and sidebars
+  --keep-attributes             Keep all HTML attributes
+  --heading-style=STYLE         atx or setext
+  --bullet=MARKER               List marker: -, * or +
+  --code-block-style=STYLE      fenced or indented
+  --em=DELIMITER                Emphasis delimiter: * or _
+  --strong=DELIMITER            Strong delimiter: ** or __
+  --link-style=STYLE            inlined or referenced
+  --hr=TEXT                     Horizontal rule
+  --table-fallback=MODE         Tables GFM can't represent: html or list
+
+Output:
   --use-titles, -t              Use page titles for filenames
   --use-url-paths, -u           Use URL paths for filenames
   --domain-folders, -d          Organize by domain folders
   --flat-structure, -n          Use flat folder structure
+  --header-format=FORMAT        File header: comment, yaml or toml
+  --no-source-url               Leave the source URL out of the file header
+  --no-date                     Leave the generated date out of the file header
+  --rewrite-links               Rewrite links between converted pages to relative paths
+  --download-assets             Download images and media next to each file
+  --chunks                      Also write heading-aware chunks to chunks.jsonl
+  --chunk-size=NUM              Maximum chunk size in tokens (implies --chunks)
+  --chunk-overlap=NUM           Tokens repeated from the previous chunk (implies --chunks)
+  --llms-txt                    Also write llms.txt and llms-full.txt for the converted pages
+
+Runs:
+  --force                       Refetch and rewrite every page, ignoring the manifest
+  --resume                      Continue the previous run where it stopped
+  --retry-failed                Rerun the URLs that failed in the previous run
+  --report=FILE                 Name of the JSON run report in the output directory
+  --report-csv=FILE             Also write the per-URL report as CSV to FILE in the output directory
+  --no-report                   Don't write the run report
+
+Exit codes:
+  0 all URLs converted, skipped or unchanged   1 fatal error   2 invalid arguments
+  3 some URLs failed                           4 every URL failed, or no URLs were found
+
+Environment:
+  Every configuration field can be set with ${ENV_PREFIX}<FIELD>, nested fields joined
+  with __, e.g. ${ENV_PREFIX}OUTPUT_DIR=out or ${ENV_PREFIX}TURNDOWN_OPTIONS__HEADING_STYLE=setext.
+  Command-line options override the environment, which overrides the config file.
 
 Examples:
-  node index.js --output-dir=output --sitemap=https://example.com/sitemap.xml
-  node index.js --url-file=myurls.txt --use-titles --flat-structure
-`);
-    process.exit(0);
-  };
+  crawl-web-to-md --output-dir=output --sitemap=https://example.com/sitemap.xml
+  crawl-web-to-md --url-file=myurls.txt --use-titles --flat-structure
+  crawl-web-to-md crawl https://example.com/docs/ --scope=path --max-depth=3
+  crawl-web-to-md --dir=./export --base-url=https://example.com/help/
+  crawl-web-to-md sitemap list example.com --modified-since=2024-06-01
+  crawl-web-to-md --feed=https://example.com/blog/feed.xml --feed-content --header-format=yaml
+  crawl-web-to-md --config=configs/docs.json --dry-run
+`;
+
+/**
+ * Apply command-line options to a configuration
+ * @param config Configuration to apply the command-line options to
+ * @param args Arguments after the command name
+ * @returns The updated configuration, the other arguments and the CLI-only options
+ * @throws UsageError for unknown options and invalid values
+ */
+export function processCLI(config: Config, args: string[] = process.argv.slice(2)): CliOptions {
+  const positionals: string[] = [];
+  let configUpdated = false;
+  let dryRun = false;
+  // --include replaces the configured patterns instead of adding to them
+  let includeSet = false;
 
   // Process each argument
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
-    
+
+    // --name=value and --name value are both accepted
+    const eq = arg.startsWith('-') ? arg.indexOf('=') : -1;
+    const name = eq === -1 ? arg : arg.substring(0, eq);
+    const value = (): string => {
+      if (eq !== -1) return arg.substring(eq + 1);
+      if (i + 1 < args.length) return args[++i];
+      throw new UsageError(`${name} needs a value`);
+    };
+    const number = (integer = true): number => {
+      const text = value();
+      const parsed = Number(text);
+      if (!text.trim() || !isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+        throw new UsageError(`${name} expects a${integer ? ' whole' : ''} number of 0 or more, got "${text}"`);
+      }
+      return parsed;
+    };
+    const choice = <T extends string>(options: readonly T[]): T => {
+      const text = value();
+      if (!options.includes(text as T)) {
+        throw new UsageError(`${name} expects one of ${options.join(', ')}, got "${text}"`);
+      }
+      return text as T;
+    };
+
     if (arg === '--help' || arg === '-h') {
-      showHelp();
+      console.log(HELP);
+      process.exit(EXIT_CODES.success);
     }
-    
-    // Output directory
-    else if (arg.startsWith('--output-dir=')) {
-      config.outputDir = arg.split('=')[1];
-      configUpdated = true;
+
+    // Arguments of the command, e.g. seed URLs
+    else if (!arg.startsWith('-')) {
+      positionals.push(arg);
+      continue;
     }
-    else if (arg === '-o' && i + 1 < args.length) {
-      config.outputDir = args[++i];
-      configUpdated = true;
+
+    // Read before the configuration is loaded, see loadOptions()
+    else if (name === '--config') {
+      value();
+      continue;
     }
-    
-    // URL file
-    else if (arg.startsWith('--url-file=')) {
-      config.urlSource.type = 'file';
-      config.urlSource.file = arg.split('=')[1];
-      configUpdated = true;
+    else if (arg === '--strict-config') {
+      continue;
     }
-    else if (arg === '-f' && i + 1 < args.length) {
+    else if (arg === '--dry-run') {
+      dryRun = true;
+      continue;
+    }
+
+    // Output directory
+    else if (name === '--output-dir' || name === '-o') {
+      config.outputDir = value();
+    }
+
+    // URL file
+    else if (name === '--url-file' || name === '-f') {
       config.urlSource.type = 'file';
-      config.urlSource.file = args[++i];
-      configUpdated = true;
+      config.urlSource.file = value();
     }
-    
+
     // Sitemap URL
-    else if (arg.startsWith('--sitemap=')) {
+    else if (name === '--sitemap' || name === '-s') {
       config.urlSource.type = 'sitemap';
-      config.urlSource.sitemap = arg.split('=')[1];
-      configUpdated = true;
+      config.urlSource.sitemap = value();
     }
-    else if (arg === '-s' && i + 1 < args.length) {
-      config.urlSource.type = 'sitemap';
-      config.urlSource.sitemap = args[++i];
-      configUpdated = true;
+
+    // Sitemap filter
+    else if (name === '--modified-since') {
+      const date = value();
+      if (isNaN(new Date(date).getTime())) {
+        throw new UsageError(`${name} expects a date such as 2024-06-01, got "${date}"`);
+      }
+      config.sitemapFilter.modifiedSince = date;
+    }
+    else if (name === '--min-priority') {
+      config.sitemapFilter.minPriority = number(false);
+    }
+
+    // Feed
+    else if (name === '--feed') {
+      config.urlSource.type = 'feed';
+      config.urlSource.feed = value();
+    }
+    else if (arg === '--feed-content') {
+      config.urlSource.useFeedContent = true;
     }
-    
+
     // Max concurrent
-    else if (arg.startsWith('--max-concurrent=')) {
-      const value = parseInt(arg.split('=')[1], 10);
-      if (!isNaN(value)) {
-        config.maxConcurrent = value;
-        configUpdated = true;
-      }
+    else if (name === '--max-concurrent' || name === '-c') {
+      config.maxConcurrent = number();
+    }
+
+    // Per-host rate limit
+    else if (name === '--rate') {
+      config.rateLimit.requestsPerSecond = number(false);
     }
-    else if (arg === '-c' && i + 1 < args.length) {
-      const value = parseInt(args[++i], 10);
-      if (!isNaN(value)) {
-        config.maxConcurrent = value;
-        configUpdated = true;
+    else if (name === '--max-per-host') {
+      config.rateLimit.maxConcurrentPerHost = number();
+    }
+
+    // Requests
+    else if (name === '--timeout') {
+      config.timeout = number();
+    }
+    else if (name === '--retries') {
+      config.retryAttempts = number();
+    }
+    else if (name === '--retry-delay') {
+      config.retryDelay = number();
+    }
+    else if (name === '--max-retry-delay') {
+      config.retry.maxDelay = number();
+    }
+    else if (name === '--retry-on') {
+      const text = value();
+      const statuses = text.split(',').map(item => item.trim()).filter(Boolean).map(Number);
+      if (!statuses.length || statuses.some(status => !Number.isInteger(status) || status < 100 || status > 599)) {
+        throw new UsageError(`${name} expects HTTP statuses such as 408,429, got "${text}"`);
       }
+      config.retry.retryStatuses = statuses;
+    }
+    else if (arg === '--no-retry-after') {
+      config.retry.respectRetryAfter = false;
     }
-    
+    else if (name === '--circuit-breaker') {
+      config.retry.circuitBreakerThreshold = number();
+    }
+    else if (name === '--user-agent') {
+      config.userAgent = value();
+    }
+
+    // Content types
+    else if (name === '--unknown-types') {
+      config.contentTypes.unknown = choice(['skip', 'html', 'text'] as const);
+    }
+    else if (name === '--max-response-size') {
+      config.contentTypes.maxResponseBytes = number();
+    }
+
     // Use page titles
     else if (arg === '--use-titles' || arg === '-t') {
       config.fileOptions.usePageTitlesForFilenames = true;
       config.fileOptions.preserveUrlFilenames = false;
-      configUpdated = true;
     }
-    
+
     // Use URL paths
     else if (arg === '--use-url-paths' || arg === '-u') {
       config.fileOptions.usePageTitlesForFilenames = false;
       config.fileOptions.preserveUrlFilenames = true;
-      configUpdated = true;
     }
-    
+
     // Domain folders
     else if (arg === '--domain-folders' || arg === '-d') {
       config.fileOptions.useDomainSubfolders = true;
-      configUpdated = true;
     }
-    
+
     // Flat structure
     else if (arg === '--flat-structure' || arg === '-n') {
       config.fileOptions.useDomainSubfolders = false;
-      configUpdated = true;
     }
-    
-    else if (arg.startsWith('--')) {
-      console.warn(`Unknown option: ${arg}`);
+
+    // File header
+    else if (name === '--header-format') {
+      config.fileOptions.headerFormat = choice(['comment', 'yaml', 'toml'] as const);
+    }
+    else if (arg === '--no-source-url') {
+      config.fileOptions.addSourceUrl = false;
+    }
+    else if (arg === '--no-date') {
+      config.fileOptions.addDate = false;
+    }
+    else if (arg === '--rewrite-links') {
+      config.fileOptions.rewriteInternalLinks = true;
+    }
+
+    // Crawl seeds
+    else if (name === '--crawl') {
+      if (config.urlSource.type !== 'crawl') {
+        config.urlSource.seeds = [];
+      }
+      config.urlSource.type = 'crawl';
+      config.urlSource.seeds.push(value());
+    }
+
+    // Local HTML files
+    else if (name === '--dir') {
+      config.urlSource.type = 'directory';
+      config.urlSource.directory = value();
+    }
+    else if (name === '--include') {
+      if (!includeSet) {
+        config.urlSource.include = [];
+        includeSet = true;
+      }
+      config.urlSource.include.push(value());
+    }
+    else if (name === '--base-url') {
+      config.urlSource.baseUrl = value();
+    }
+
+    // Crawl limits
+    else if (name === '--max-depth') {
+      config.crawl.maxDepth = number();
+    }
+    else if (name === '--max-pages') {
+      config.crawl.maxPages = number();
+    }
+
+    // Crawl scope
+    else if (name === '--scope') {
+      config.crawl.scope = choice(['host', 'path', 'hosts'] as const);
+    }
+    else if (name === '--allow-host') {
+      config.crawl.allowedHosts.push(value());
+    }
+
+    // robots.txt override
+    else if (arg === '--ignore-robots') {
+      config.robots.respect = false;
+    }
+
+    // URL normalization
+    else if (name === '--strip-param') {
+      config.urlNormalization.stripParams.push(value());
+    }
+    else if (arg === '--no-canonical') {
+      config.urlNormalization.followCanonical = false;
+    }
+    else if (arg === '--no-normalize') {
+      config.urlNormalization.enabled = false;
+    }
+
+    // Content selection
+    else if (name === '--exclude') {
+      config.selectors.exclude.push(value());
+    }
+    else if (name === '--unwrap') {
+      config.selectors.unwrap.push(value());
+    }
+    else if (name === '--select') {
+      config.selectors.include.push(value());
+    }
+    else if (arg === '--main-content') {
+      config.selectors.extractMainContent = true;
+    }
+    else if (arg === '--keep-attributes') {
+      config.selectors.removeAttributes = false;
+    }
+
+    // Turndown options
+    else if (name === '--heading-style') {
+      config.turndownOptions.headingStyle = choice(['atx', 'setext'] as const);
+    }
+    else if (name === '--bullet') {
+      config.turndownOptions.bulletListMarker = choice(['-', '*', '+'] as const);
+    }
+    else if (name === '--code-block-style') {
+      config.turndownOptions.codeBlockStyle = choice(['fenced', 'indented'] as const);
     }
+    else if (name === '--em') {
+      config.turndownOptions.emDelimiter = choice(['*', '_'] as const);
+    }
+    else if (name === '--strong') {
+      config.turndownOptions.strongDelimiter = choice(['**', '__'] as const);
+    }
+    else if (name === '--link-style') {
+      config.turndownOptions.linkStyle = choice(['inlined', 'referenced'] as const);
+    }
+    else if (name === '--hr') {
+      config.turndownOptions.hr = value();
+    }
+    else if (name === '--table-fallback') {
+      config.tables.fallback = choice(['html', 'list'] as const);
+    }
+
+    // Asset downloads
+    else if (arg === '--download-assets') {
+      config.assets.download = true;
+    }
+
+    // Chunked JSONL output
+    else if (arg === '--chunks') {
+      config.chunks.enabled = true;
+    }
+    else if (name === '--chunk-size') {
+      config.chunks.enabled = true;
+      config.chunks.maxTokens = number();
+    }
+    else if (name === '--chunk-overlap') {
+      config.chunks.enabled = true;
+      config.chunks.overlapTokens = number();
+    }
+
+    // llms.txt bundles
+    else if (arg === '--llms-txt') {
+      config.llmsTxt.enabled = true;
+    }
+
+    // Full run without the manifest
+    else if (arg === '--force') {
+      config.incremental.enabled = false;
+    }
+
+    // Resuming runs
+    else if (arg === '--resume') {
+      config.state.resume = true;
+    }
+    else if (arg === '--retry-failed') {
+      config.state.retryFailed = true;
+    }
+
+    // Run report
+    else if (name === '--report') {
+      config.report.enabled = true;
+      config.report.file = value();
+    }
+    else if (name === '--report-csv') {
+      config.report.enabled = true;
+      config.report.csvFile = value();
+    }
+    else if (arg === '--no-report') {
+      config.report.enabled = false;
+    }
+
+    else {
+      throw new UsageError(`Unknown option: ${arg}`);
+    }
+
+    configUpdated = true;
+  }
+
+  return { config, positionals, dryRun, optionsApplied: configUpdated };
+}
+
+/**
+ * Find the value of an option before the arguments are processed
+ * @param args Command-line arguments
+ * @param name Option name
+ * @returns Option value, or undefined if the option isn't given
+ */
+function findOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith(`${name}=`)) return args[i].substring(name.length + 1);
+    if (args[i] === name) {
+      if (i + 1 >= args.length) throw new UsageError(`${name} needs a value`);
+      return args[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the configuration of a command: defaults, then the config file, the
+ * environment variables and the command-line options
+ * @param args Arguments after the command name
+ * @param quiet Leave out the status messages of loading
+ * @returns Parsed options
+ */
+function loadOptions(args: string[], quiet = false): CliOptions {
+  const configPath = findOption(args, '--config');
+  if (configPath && !fs.existsSync(configPath)) {
+    throw new UsageError(`Configuration file not found: ${configPath}`);
+  }
+
+  const manager = new ConfigManager(configPath, { strict: args.includes('--strict-config'), quiet });
+  manager.applyEnv(process.env);
+  return processCLI(manager.getConfig(), args);
+}
+
+/**
+ * Check a configuration file and exit with 0 if it is valid, 1 otherwise
+ * @param configPath Path to configuration file
+ */
+function validateConfig(configPath: string): never {
+  try {
+    const { issues } = ConfigManager.check(configPath);
+    if (issues.length === 0) {
+      console.log(`✅ ${configPath} is valid`);
+      process.exit(EXIT_CODES.success);
+    }
+
+    console.error(`❌ ${configPath} has ${issues.length} problem${issues.length === 1 ? '' : 's'}:`);
+    issues.forEach(issue => console.error(`  - ${ConfigValidator.format(issue)}`));
+  } catch (error: any) {
+    console.error(`❌ Can't read ${configPath}: ${error.message}`);
+  }
+  process.exit(EXIT_CODES.fatal);
+}
+
+/**
+ * Run the config subcommands: init, show and validate
+ * @param args Arguments after "config"
+ */
+function configCommand(args: string[]): void {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case 'init': {
+      const configPath = findOption(rest, '--config') || rest.find(arg => !arg.startsWith('-')) || 'config.json';
+      if (fs.existsSync(configPath) && !rest.includes('--force')) {
+        throw new UsageError(`${configPath} already exists, add --force to overwrite it`);
+      }
+      fs.mkdirSync(path.dirname(path.resolve(configPath)), { recursive: true });
+      fs.writeFileSync(configPath, JSON.stringify(DEFAULT_CONFIG, null, 2) + '\n', 'utf-8');
+      console.log(`✅ Default configuration written to ${configPath}`);
+      return;
+    }
+    case 'show': {
+      // Only the JSON goes to stdout, so it can be piped
+      const { config, positionals } = loadOptions(rest, true);
+      if (positionals.length > 0) throw new UsageError(`Unexpected argument: ${positionals[0]}`);
+      console.log(JSON.stringify(config, null, 2));
+      return;
+    }
+    case 'validate':
+      validateConfig(findOption(rest, '--config') || rest.find(arg => !arg.startsWith('-')) || 'config.json');
+    default:
+      throw new UsageError(action ? `Unknown config command: ${action}` : 'config needs a command: init, show or validate');
   }
-  
+}
+
+/**
+ * List the entries of a sitemap
+ * @param args Arguments after "sitemap"
+ */
+async function sitemapCommand(args: string[]): Promise<void> {
+  const [action, ...rest] = args;
+  if (action !== 'list') {
+    throw new UsageError(action ? `Unknown sitemap command: ${action}` : 'sitemap needs a command: list');
+  }
+
+  const { config, positionals } = loadOptions(rest);
+  const source = positionals[0] || config.urlSource.sitemap;
+  if (!source) {
+    throw new UsageError('sitemap list needs a sitemap URL or domain, or urlSource.sitemap in the configuration');
+  }
+
+  const entries = await new Converter(config).listSitemap(source);
+  console.log(`📊 Found ${entries.length} URLs in sitemap`);
+  for (const entry of entries) {
+    const details = [entry.lastmod && `lastmod ${entry.lastmod}`, entry.priority !== undefined && `priority ${entry.priority}`].filter(Boolean);
+    console.log(details.length > 0 ? `${entry.loc}  (${details.join(', ')})` : entry.loc);
+  }
+}
+
+/**
+ * Convert the configured source, or crawl from the given seeds
+ * @param args Arguments after the command name
+ * @param crawl True for the crawl command, whose arguments are seed URLs
+ */
+async function convertCommand(args: string[], crawl: boolean): Promise<void> {
+  const { config, positionals, dryRun, optionsApplied } = loadOptions(args);
+
+  if (crawl) {
+    if (positionals.length > 0) {
+      config.urlSource.seeds = positionals;
+    }
+    config.urlSource.type = 'crawl';
+    if (config.urlSource.seeds.length === 0) {
+      throw new UsageError('crawl needs at least one seed URL');
+    }
+    for (const seed of config.urlSource.seeds) {
+      if (!/^https?:\/\/[^/]/i.test(seed)) throw new UsageError(`Not an http(s) URL: ${seed}`);
+    }
+  } else if (positionals.length > 0) {
+    throw new UsageError(`Unexpected argument: ${positionals[0]}`);
+  }
+
   // If we updated the config, tell the user
-  if (configUpdated) {
+  if (optionsApplied) {
     console.log('⚙️ Command-line options applied');
   }
-  
-  return config;
+
+  const converter = new Converter(config);
+
+  if (dryRun) {
+    const pages = await converter.plan();
+    if (config.urlSource.type === 'crawl') {
+      console.log('🕷️ Dry run: a crawl finds its pages while fetching, these are the seeds');
+    }
+    pages.forEach(page => console.log(`${page.url} → ${page.filePath}`));
+    console.log(`📋 Dry run: ${pages.length} URLs, nothing was fetched or written`);
+    return;
+  }
+
+  console.log('🚀 Starting HTML to Markdown conversion');
+  console.log(`📁 Output directory: ${config.outputDir}`);
+  console.log(`🔧 Using configuration with ${config.selectors.exclude.length} exclude selectors`);
+  if (!config.robots.respect) {
+    console.log(`🤖 robots.txt rules are ignored`);
+  }
+  console.log(`📂 File organization: ${config.fileOptions.useDomainSubfolders ? 'Domain subfolders' : 'Flat structure'}`);
+
+  // Show filename strategy
+  if (config.fileOptions.preserveUrlFilenames) {
+    console.log(`📄 Filenames: Using URL paths with query parameters`);
+  } else if (config.fileOptions.usePageTitlesForFilenames) {
+    console.log(`📄 Filenames: Using page titles when available`);
+  } else {
+    console.log(`📄 Filenames: Using simple URL paths`);
+  }
+
+  // Show URL source
+  if (config.urlSource.type === 'sitemap') {
+    console.log(`🔗 URL source: Sitemap XML (${config.urlSource.sitemap})`);
+  } else if (config.urlSource.type === 'feed') {
+    console.log(`🔗 URL source: Feed (${config.urlSource.feed})${config.urlSource.useFeedContent ? ', using its content' : ''}`);
+  } else if (config.urlSource.type === 'crawl') {
+    console.log(`🔗 URL source: Crawl (${config.urlSource.seeds.join(', ')})`);
+  } else if (config.urlSource.type === 'directory') {
+    console.log(`🔗 URL source: Local files (${config.urlSource.directory})`);
+  } else {
+    console.log(`🔗 URL source: File (${config.urlSource.file})`);
+  }
+
+  // Save the run state when interrupted, so it can be resumed
+  const handler = (signal: NodeJS.Signals) => {
+    console.log(`\n🛑 Received ${signal}, saving run state`);
+    converter.saveStateSync();
+    console.log('💾 Run state saved, continue with --resume');
+    process.exit(130);
+  };
+  process.once('SIGINT', handler);
+  process.once('SIGTERM', handler);
+
+  const counts = await converter.run();
+  const total = counts.done + counts.failed + counts.skipped + counts.pending;
+
+  if (total === 0) {
+    console.log('⚠️ No URLs were found to convert');
+    process.exitCode = EXIT_CODES.failure;
+  } else if (counts.failed > 0) {
+    console.log(`⚠️ ${counts.failed} URLs failed, rerun them with --retry-failed`);
+    process.exitCode = counts.failed === total ? EXIT_CODES.failure : EXIT_CODES.partialFailure;
+  } else {
+    console.log('✨ Conversion completed successfully');
+  }
+}
+
+/**
+ * Run the command given on the command line; without a command, convert
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  // Options without a command run convert, as before subcommands existed
+  const [command, ...rest] = args.length > 0 && !args[0].startsWith('-') ? args : ['convert', ...args];
+
+  try {
+    switch (command) {
+      case 'convert':
+        await convertCommand(rest, false);
+        break;
+      case 'crawl':
+        await convertCommand(rest, true);
+        break;
+      case 'sitemap':
+        await sitemapCommand(rest);
+        break;
+      case 'config':
+        configCommand(rest);
+        break;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error('Run crawl-web-to-md --help for usage');
+      process.exit(EXIT_CODES.usage);
+    }
+    console.error(`🔥 Fatal error: ${error.message}`);
+    process.exit(EXIT_CODES.fatal);
+  }
+}
+
+if (require.main === module) {
+  main();
 }
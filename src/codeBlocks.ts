@@ -0,0 +1,164 @@
+import TurndownService from 'turndown';
+import { Config } from './config';
+
+/**
+ * Line-number gutters added by syntax highlighters (Pygments, Rouge, Prism, highlight.js line numbers)
+ */
+const GUTTER_SELECTORS = ['.linenos', '.lineno', '.rouge-gutter', '.gutter', '.line-numbers-rows', '.hljs-ln-numbers', '.line-number', '.linenumber'];
+
+/**
+ * Elements that highlighters put one line of code in, without a newline between them
+ */
+const LINE_ELEMENTS = ['DIV', 'P', 'LI', 'TR'];
+
+/**
+ * Language names that mean "no highlighting" rather than a language
+ */
+const NO_LANGUAGE = ['none', 'nohighlight', 'no-highlight', 'default'];
+
+/**
+ * Converts <pre> blocks to fenced code blocks that keep the code exactly as
+ * written, tagged with the language found in the highlighter markup
+ */
+export class CodeBlocks {
+  /**
+   * Clean up highlighter markup around code blocks and record their language.
+   * Runs before attributes are removed, since both are found through classes.
+   * @param document DOM document
+   */
+  public static prepare(document: Document): void {
+    const blocks = Array.from(document.querySelectorAll('pre'));
+    if (!blocks.length) return;
+
+    // Gutters count as code text, so they go before anything reads it
+    document.querySelectorAll(GUTTER_SELECTORS.join(',')).forEach(gutter => {
+      const table = gutter.closest('table');
+      if (gutter.closest('pre') || (table && table.querySelector('pre'))) {
+        gutter.remove();
+      }
+    });
+
+    for (const pre of blocks) {
+      if (!pre.isConnected) continue;
+
+      // Copy buttons and similar controls are not part of the code
+      pre.querySelectorAll('button').forEach(button => button.remove());
+
+      // Highlighters that lay out gutter and code as a table leave the code alone in it
+      const table = pre.closest('table');
+      if (table && table.textContent?.trim() === pre.textContent?.trim()) {
+        table.replaceWith(pre);
+      }
+
+      const language = this.findLanguage(pre);
+      if (language) {
+        pre.setAttribute('data-lang', language);
+      }
+    }
+  }
+
+  /**
+   * Add the code block rule to a Turndown service
+   * @param turndownService Service to extend
+   * @param options Turndown options with the code block style
+   */
+  public static addRules(turndownService: TurndownService, options: Config['turndownOptions']): void {
+    turndownService.addRule('codeBlock', {
+      filter: 'pre',
+      replacement: (_content, node) => {
+        const pre = node as HTMLElement;
+        const code = this.getText(pre).replace(/\n$/, '');
+
+        if (options.codeBlockStyle === 'indented') {
+          return `\n\n${code.replace(/^/gm, '    ')}\n\n`;
+        }
+
+        // The fence must be longer than any backtick fence inside the code, or the code would end the block
+        const runs = (code.match(/^ {0,3}`{3,}/gm) || []).map(run => run.trim().length);
+        const fence = '`'.repeat(Math.max(3, ...runs.map(length => length + 1)));
+        return `\n\n${fence}${pre.getAttribute('data-lang') || ''}\n${code}\n${fence}\n\n`;
+      }
+    });
+  }
+
+  /**
+   * Text of a code block with its whitespace as written: <br> and per-line
+   * elements become newlines, highlighter spans are flattened
+   * @param node Element to read
+   * @returns Code text
+   */
+  public static getText(node: Node): string {
+    let text = '';
+    node.childNodes.forEach(child => {
+      if (child.nodeType === 3) {
+        text += child.nodeValue;
+      } else if (child.nodeName === 'BR') {
+        text += '\n';
+      } else if (child.nodeType === 1) {
+        const inner = this.getText(child);
+        text += inner;
+        // An empty line element is a blank line
+        if (LINE_ELEMENTS.includes(child.nodeName) && !inner.endsWith('\n')) {
+          text += '\n';
+        }
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Find the language of a code block in the classes or data attributes of
+   * the <pre>, its <code> or the wrappers around it
+   * @param pre Code block
+   * @returns Language name, or null if none is given
+   */
+  private static findLanguage(pre: Element): string | null {
+    const candidates: Element[] = [];
+    const code = pre.querySelector('code');
+    if (code) candidates.push(code);
+
+    // Wrappers such as <div class="highlight-python"> or <div class="language-js highlighter-rouge">
+    for (let element: Element | null = pre; element && candidates.length < 5; element = element.parentElement) {
+      candidates.push(element);
+    }
+
+    for (const element of candidates) {
+      const language = this.languageOf(element);
+      if (language) {
+        return NO_LANGUAGE.includes(language) ? null : language;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read the language an element declares
+   * @param element Element to check
+   * @returns Lowercase language name, or null if the element declares none
+   */
+  private static languageOf(element: Element): string | null {
+    const attribute = element.getAttribute('data-lang') || element.getAttribute('data-language');
+    if (attribute) return this.clean(attribute);
+
+    const className = element.getAttribute('class') || '';
+    // SyntaxHighlighter writes class="brush: js"
+    const brush = className.match(/brush:\s*([\w#+.-]+)/);
+    if (brush) return this.clean(brush[1]);
+
+    for (const token of className.split(/\s+/)) {
+      const match = token.match(/^(?:language|lang)-(.+)$/) || token.match(/^highlight-(?:source-)?(.+)$/);
+      if (match) return this.clean(match[1]);
+    }
+    return null;
+  }
+
+  /**
+   * Keep only the characters a fence info string can safely hold
+   * @param language Language as written
+   * @returns Cleaned language name, or null if nothing is left
+   */
+  private static clean(language: string): string | null {
+    const cleaned = language.trim().toLowerCase().replace(/[^\w#+.-]/g, '');
+    return cleaned || null;
+  }
+}
@@ -1,5 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { ConfigIssue, ConfigValidator } from './configValidator';
+
+/**
+ * Rules for the URLs of one site or section, merged over the global selectors and Turndown options
+ */
+export interface SelectorProfile {
+  // Shown in the log when the profile matches
+  name: string;
+  // Glob matched against the hostname, e.g. *.example.com (any host when empty)
+  host?: string;
+  // Glob matched against the URL path, e.g. /docs/** (any path when empty)
+  path?: string;
+  selectors?: Partial<Config['selectors']>;
+  turndownOptions?: Partial<Config['turndownOptions']>;
+}
 
 /**
  * Configuration interface for HTML to Markdown conversion
@@ -9,16 +24,89 @@ export interface Config {
   maxConcurrent: number;
   timeout: number;
   retryAttempts: number;
+  // Delay before the first retry, the base of the backoff
   retryDelay: number;
+  // When and how failed requests are retried
+  retry: {
+    // Multiplier of the delay after each retry
+    backoffFactor: number;
+    // Upper bound of the backoff delay
+    maxDelay: number;
+    // Fraction of the delay that is randomized, 0 to 1
+    jitter: number;
+    // Statuses retried besides 5xx; other 4xx fail at once
+    retryStatuses: number[];
+    // Wait as long as the Retry-After header asks, up to maxRetryAfter
+    respectRetryAfter: boolean;
+    maxRetryAfter: number;
+    // Failures in a row after which a host's requests are paused, 0 to never pause
+    circuitBreakerThreshold: number;
+    circuitBreakerCooldown: number;
+  };
+  // Politeness limits per host, on top of robots.txt Crawl-delay
+  rateLimit: {
+    // Token bucket refill rate, 0 for no limit
+    requestsPerSecond: number;
+    // Pages processed at once for one host, 0 for no limit
+    maxConcurrentPerHost: number;
+  };
+  // How responses are handled by their Content-Type
+  contentTypes: {
+    // Types that are not HTML, text, a feed or a known binary: skip them, or convert them as HTML or as text
+    unknown: 'skip' | 'html' | 'text';
+    // Largest response read, larger ones are skipped; 0 for no limit
+    maxResponseBytes: number;
+  };
   urlSource: {
-    type: 'file' | 'sitemap';
+    type: 'file' | 'sitemap' | 'feed' | 'crawl' | 'directory';
     file: string;
     sitemap: string;
+    // RSS or Atom feed URL, and whether to convert the full content it carries instead of fetching each article
+    feed: string;
+    useFeedContent: boolean;
+    seeds: string[];
+    // Local HTML files: folder, glob patterns relative to it and the URL it was published at
+    directory: string;
+    include: string[];
+    baseUrl: string;
+  };
+  // Cleaning and deduplication of URLs before they are processed
+  urlNormalization: {
+    enabled: boolean;
+    // Query parameters to remove, * matches any characters (utm_*)
+    stripParams: string[];
+    sortQuery: boolean;
+    // Treat www.example.com and example.com as the same site
+    ignoreWww: boolean;
+    // Treat /docs and /docs/ as the same page
+    ignoreTrailingSlash: boolean;
+    // Name files after <link rel="canonical"> and drop pages whose canonical URL was already converted
+    followCanonical: boolean;
+  };
+  // Which sitemap entries to convert
+  sitemapFilter: {
+    // ISO date, entries with an older <lastmod> are left out (empty for no limit)
+    modifiedSince: string;
+    // Entries with a lower <priority> are left out, missing priorities count as 0.5
+    minPriority: number;
+  };
+  crawl: {
+    maxDepth: number;
+    maxPages: number;
+    // host: same host as the seed, path: same host and path prefix, hosts: crawl.allowedHosts only
+    scope: 'host' | 'path' | 'hosts';
+    allowedHosts: string[];
   };
   selectors: {
     exclude: string[];
     unwrap: string[];
+    // Keep only the elements matching these selectors, the whole body when empty or none match
+    include: string[];
     removeAttributes: boolean;
+    // Attributes removeAttributes leaves in place
+    keepAttributes: string[];
+    extractMainContent: boolean;
+    minContentScore: number;
   };
   turndownOptions: {
     headingStyle: 'atx' | 'setext';
@@ -29,16 +117,80 @@ export interface Config {
     linkStyle: 'inlined' | 'referenced';
     strongDelimiter: '**' | '__';
   };
+  // Selector and Turndown overrides for some sites or paths, the first matching profile applies
+  profiles: SelectorProfile[];
   userAgent: string;
+  robots: {
+    respect: boolean;
+    agentToken: string;
+  };
+  incremental: {
+    enabled: boolean;
+    // Stored in outputDir
+    manifestFile: string;
+  };
+  state: {
+    // Stored in outputDir
+    file: string;
+    resume: boolean;
+    retryFailed: boolean;
+  };
+  // Per-URL outcomes and totals of a run
+  report: {
+    enabled: boolean;
+    // JSON report stored in outputDir
+    file: string;
+    // CSV copy of the per-URL table stored in outputDir, empty for none
+    csvFile: string;
+  };
+  tables: {
+    // How to write tables GFM can't represent (merged cells, nested tables)
+    fallback: 'html' | 'list';
+  };
+  chunks: {
+    enabled: boolean;
+    // JSONL file stored in outputDir
+    file: string;
+    // Approximate tokens, about four characters each
+    maxTokens: number;
+    overlapTokens: number;
+  };
+  llmsTxt: {
+    // Write llms.txt and llms-full.txt to outputDir after a run
+    enabled: boolean;
+    // Heading of llms.txt, the site's host when empty
+    title: string;
+    // Optional one-line summary quoted below the heading
+    summary: string;
+  };
+  assets: {
+    download: boolean;
+    dir: string;
+    maxBytes: number;
+    // Exact types or wildcards like image/*
+    allowedMimeTypes: string[];
+  };
   fileOptions: {
     addSourceUrl: boolean;
     addDate: boolean;
     useDomainSubfolders: boolean;
     usePageTitlesForFilenames: boolean;
     preserveUrlFilenames: boolean;
+    rewriteInternalLinks: boolean;
+    // comment: <!-- Source --> lines, yaml/toml: front matter built from frontMatterTemplate
+    headerFormat: 'comment' | 'yaml' | 'toml';
+    // Front matter field name -> value template with {{placeholders}}, empty for the default fields
+    frontMatterTemplate: Record<string, string>;
   };
 }
 
+/**
+ * Options accepted by the library API: any subset of the configuration
+ */
+export type ConverterOptions = {
+  [K in keyof Config]?: Config[K] extends any[] ? Config[K] : Config[K] extends object ? Partial<Config[K]> : Config[K];
+};
+
 /**
  * Default configuration
  */
@@ -48,15 +200,62 @@ export const DEFAULT_CONFIG: Config = {
   timeout: 30000,
   retryAttempts: 3,
   retryDelay: 3000,
+  retry: {
+    backoffFactor: 2,
+    maxDelay: 30000,
+    jitter: 0.5,
+    retryStatuses: [408, 429],
+    respectRetryAfter: true,
+    maxRetryAfter: 120000,
+    circuitBreakerThreshold: 5,
+    circuitBreakerCooldown: 60000
+  },
+  rateLimit: {
+    requestsPerSecond: 5,
+    maxConcurrentPerHost: 2
+  },
+  contentTypes: {
+    unknown: 'skip',
+    maxResponseBytes: 10485760
+  },
   urlSource: {
     type: 'file',
     file: 'urls.txt',
-    sitemap: ''
+    sitemap: '',
+    feed: '',
+    useFeedContent: false,
+    seeds: [],
+    directory: '',
+    include: ['**/*.html', '**/*.htm'],
+    baseUrl: ''
+  },
+  urlNormalization: {
+    enabled: true,
+    stripParams: ['utm_*', 'gclid', 'dclid', 'fbclid', 'msclkid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'yclid'],
+    sortQuery: true,
+    ignoreWww: true,
+    ignoreTrailingSlash: true,
+    followCanonical: true
+  },
+  sitemapFilter: {
+    modifiedSince: '',
+    minPriority: 0
+  },
+  crawl: {
+    maxDepth: 2,
+    maxPages: 100,
+    scope: 'host',
+    allowedHosts: []
   },
   selectors: {
     exclude: ['footer', 'header', 'nav', 'script', '.cookie-banner', '#sidebar'],
     unwrap: ['.container', '.wrapper'],
-    removeAttributes: true
+    include: [],
+    removeAttributes: true,
+    // Table attributes are needed for alignment and the merged-cell fallback
+    keepAttributes: ['href', 'src', 'srcset', 'poster', 'alt', 'title', 'colspan', 'rowspan', 'align'],
+    extractMainContent: false,
+    minContentScore: 20
   },
   turndownOptions: {
     headingStyle: 'atx',
@@ -67,16 +266,74 @@ export const DEFAULT_CONFIG: Config = {
     linkStyle: 'referenced',
     strongDelimiter: '**'
   },
-  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/100.0.4896.127 Safari/537.36',
+  profiles: [],
+  userAgent: 'crawl-web-to-md/1.0 (+https://github.com/jpkeisala/HTML-to-Markdown-Converter)',
+  robots: {
+    respect: true,
+    agentToken: 'crawl-web-to-md'
+  },
+  incremental: {
+    enabled: true,
+    manifestFile: '.manifest.json'
+  },
+  state: {
+    file: '.run-state.json',
+    resume: false,
+    retryFailed: false
+  },
+  report: {
+    enabled: true,
+    file: '.run-report.json',
+    csvFile: ''
+  },
+  tables: {
+    fallback: 'html'
+  },
+  chunks: {
+    enabled: false,
+    file: 'chunks.jsonl',
+    maxTokens: 512,
+    overlapTokens: 64
+  },
+  llmsTxt: {
+    enabled: false,
+    title: '',
+    summary: ''
+  },
+  assets: {
+    download: false,
+    dir: 'assets',
+    maxBytes: 10 * 1024 * 1024,
+    allowedMimeTypes: ['image/*', 'video/*', 'audio/*']
+  },
   fileOptions: {
     addSourceUrl: true,
     addDate: true,
     useDomainSubfolders: true,
     usePageTitlesForFilenames: false,
-    preserveUrlFilenames: true
+    preserveUrlFilenames: true,
+    rewriteInternalLinks: false,
+    headerFormat: 'comment',
+    frontMatterTemplate: {}
   }
 };
 
+/**
+ * How ConfigManager loads a configuration file
+ */
+export interface ConfigLoadOptions {
+  // Throw on an unreadable or invalid file instead of falling back to defaults
+  strict?: boolean;
+  // Leave out the status messages, problems are still reported
+  quiet?: boolean;
+}
+
+/**
+ * Prefix of the environment variables that override configuration fields,
+ * e.g. CRAWL_WEB_TO_MD_OUTPUT_DIR or CRAWL_WEB_TO_MD_TURNDOWN_OPTIONS__HEADING_STYLE
+ */
+export const ENV_PREFIX = 'CRAWL_WEB_TO_MD_';
+
 /**
  * Configuration loader and manager
  */
@@ -87,34 +344,95 @@ export class ConfigManager {
   /**
    * Constructor
    * @param configPath Path to configuration file
+   * @param options Strict and quiet loading
    */
-  constructor(configPath?: string) {
+  constructor(configPath?: string, private options: ConfigLoadOptions = {}) {
     this.configPath = configPath || path.join(process.cwd(), 'config.json');
-    this.config = { ...DEFAULT_CONFIG };
+    this.config = cloneConfig(DEFAULT_CONFIG);
     this.loadConfig();
   }
 
   /**
-   * Load configuration from file
+   * Read and validate a configuration file
+   * @param configPath Path to configuration file
+   * @returns Problems found (a parse error is reported as one issue without a path), and the valid fields
+   */
+  public static check(configPath: string): { issues: ConfigIssue[]; valid: any } {
+    const content = fs.readFileSync(configPath, 'utf-8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error: any) {
+      return { issues: [{ path: '', message: `invalid JSON: ${describeParseError(error.message, content)}` }], valid: {} };
+    }
+    return ConfigValidator.validate(parsed);
+  }
+
+  /**
+   * Load configuration from file. Invalid fields are reported and keep their
+   * default, or stop the program in strict mode.
    */
   private loadConfig(): void {
+    if (!fs.existsSync(this.configPath)) {
+      this.log(`ℹ️ No configuration file found at ${this.configPath}, using defaults`);
+      return;
+    }
+
+    let result: { issues: ConfigIssue[]; valid: any };
     try {
-      if (fs.existsSync(this.configPath)) {
-        const fileContent = fs.readFileSync(this.configPath, 'utf-8');
-        const fileConfig = JSON.parse(fileContent);
-        
-        // Merge with default config
-        this.config = this.mergeConfigs(this.config, fileConfig);
-        
-        console.log(`✅ Configuration loaded from ${this.configPath}`);
-      } else {
-        console.log(`ℹ️ No configuration file found at ${this.configPath}, using defaults`);
-        this.saveConfig(); // Create default config file
-      }
+      result = ConfigManager.check(this.configPath);
     } catch (error: any) {
-      console.error(`❌ Error loading configuration: ${error.message}`);
-      console.log('ℹ️ Using default configuration');
+      result = { issues: [{ path: '', message: error.message }], valid: {} };
     }
+
+    if (result.issues.length > 0) {
+      const details = result.issues.map(issue => `  - ${ConfigValidator.format(issue)}`).join('\n');
+      if (this.options.strict) {
+        throw new Error(`Invalid configuration in ${this.configPath}:\n${details}`);
+      }
+      console.error(`❌ Problems in ${this.configPath}:\n${details}`);
+      this.log('ℹ️ Using the defaults for these fields');
+    }
+
+    // Merge with default config
+    this.config = mergeConfigs(this.config, result.valid);
+    this.log(`✅ Configuration loaded from ${this.configPath}`);
+  }
+
+  /**
+   * Apply the environment variables named after configuration fields: the
+   * ENV_PREFIX, then the field path in upper snake case with __ between
+   * levels. Arrays take comma-separated values or JSON, objects take JSON.
+   * @param env Environment variables
+   * @returns Names of the variables applied
+   */
+  public applyEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+    const fields = new Map<string, string>();
+    const overrides = readEnvOverrides(env, DEFAULT_CONFIG, ENV_PREFIX, '', fields);
+    if (fields.size === 0) return [];
+
+    const { issues, valid } = ConfigValidator.validate(overrides);
+    if (issues.length > 0) {
+      // Report each problem under the variable that caused it
+      const details = issues.map(issue => {
+        const field = Array.from(fields.keys()).find(fieldPath => issue.path === fieldPath || issue.path.startsWith(`${fieldPath}.`) || issue.path.startsWith(`${fieldPath}[`));
+        return `  - ${field ? `${fields.get(field)}: ` : ''}${ConfigValidator.format(issue)}`;
+      });
+      throw new Error(`Invalid environment variables:\n${details.join('\n')}`);
+    }
+
+    this.config = mergeConfigs(this.config, valid);
+    const names = Array.from(fields.values());
+    this.log(`⚙️ Environment overrides applied: ${names.join(', ')}`);
+    return names;
+  }
+
+  /**
+   * Print a status message unless loading quietly
+   * @param message Message to print
+   */
+  private log(message: string): void {
+    if (!this.options.quiet) console.log(message);
   }
 
   /**
@@ -145,35 +463,88 @@ export class ConfigManager {
    * @param newConfig New configuration values
    */
   public updateConfig(newConfig: Partial<Config>): void {
-    this.config = this.mergeConfigs(this.config, newConfig);
+    this.config = mergeConfigs(this.config, newConfig);
     this.saveConfig();
   }
+}
 
-  /**
-   * Deep merge configuration objects
-   * @param target Target object
-   * @param source Source object
-   * @returns Merged object
-   */
-  private mergeConfigs(target: any, source: any): any {
-    const output = { ...target };
-    
-    if (isObject(target) && isObject(source)) {
-      Object.keys(source).forEach(key => {
-        if (isObject(source[key])) {
-          if (!(key in target)) {
-            Object.assign(output, { [key]: source[key] });
-          } else {
-            output[key] = this.mergeConfigs(target[key], source[key]);
-          }
-        } else {
-          Object.assign(output, { [key]: source[key] });
-        }
-      });
+/**
+ * Collect the configuration fields set by environment variables
+ * @param env Environment variables
+ * @param defaults Default values of the object, which give the field names and types
+ * @param prefix Variable name prefix of the object
+ * @param path Field path of the object
+ * @param fields Receives the path and variable name of every field found
+ * @returns Partial configuration object, for the validator to check
+ */
+function readEnvOverrides(env: NodeJS.ProcessEnv, defaults: Record<string, any>, prefix: string, path: string, fields: Map<string, string>): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+
+  for (const key of Object.keys(defaults)) {
+    const name = prefix + key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+    const fieldPath = path ? `${path}.${key}` : key;
+    const defaultValue = defaults[key];
+    const value = env[name];
+
+    if (value === undefined) {
+      if (isObject(defaultValue)) {
+        const nested = readEnvOverrides(env, defaultValue, `${name}__`, fieldPath, fields);
+        if (Object.keys(nested).length > 0) overrides[key] = nested;
+      }
+      continue;
     }
-    
-    return output;
+
+    fields.set(fieldPath, name);
+    overrides[key] = parseEnvValue(value, defaultValue);
   }
+
+  return overrides;
+}
+
+/**
+ * Convert an environment variable to the type of a field. Values that don't
+ * convert are returned as strings, so the validator reports them.
+ * @param value Variable value
+ * @param defaultValue Default of the field
+ * @returns Converted value
+ */
+function parseEnvValue(value: string, defaultValue: unknown): unknown {
+  const text = value.trim();
+  if (typeof defaultValue === 'number') {
+    return text !== '' && isFinite(Number(text)) ? Number(text) : value;
+  }
+  if (typeof defaultValue === 'boolean') {
+    if (/^(true|1|yes|on)$/i.test(text)) return true;
+    if (/^(false|0|no|off)$/i.test(text)) return false;
+    return value;
+  }
+  if (Array.isArray(defaultValue) || isObject(defaultValue)) {
+    if (/^[\[{]/.test(text)) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return value;
+      }
+    }
+    if (!Array.isArray(defaultValue)) return value;
+    const items = text.split(',').map(item => item.trim()).filter(Boolean);
+    return typeof defaultValue[0] === 'number' ? items.map(item => (isFinite(Number(item)) ? Number(item) : item)) : items;
+  }
+  return value;
+}
+
+/**
+ * Add the line and column to a JSON.parse error message
+ * @param message Error message with "at position N"
+ * @param content Parsed text
+ * @returns Message with the location
+ */
+function describeParseError(message: string, content: string): string {
+  const match = message.match(/at position (\d+)/);
+  if (!match || /line \d+/.test(message)) return message;
+
+  const before = content.substring(0, parseInt(match[1], 10)).split('\n');
+  return `${message} (line ${before.length}, column ${before[before.length - 1].length + 1})`;
 }
 
 /**
@@ -185,6 +556,46 @@ function isObject(item: any): boolean {
   return item && typeof item === 'object' && !Array.isArray(item);
 }
 
-// Export default instance
-export const configManager = new ConfigManager();
-export default configManager.getConfig();
+/**
+ * Deep merge configuration objects. Arrays and other values in the source replace those in the target.
+ * @param target Target object
+ * @param source Source object
+ * @returns Merged object
+ */
+function mergeConfigs(target: any, source: any): any {
+  const output = { ...target };
+  
+  if (isObject(target) && isObject(source)) {
+    Object.keys(source).forEach(key => {
+      if (isObject(source[key])) {
+        if (!(key in target)) {
+          Object.assign(output, { [key]: source[key] });
+        } else {
+          output[key] = mergeConfigs(target[key], source[key]);
+        }
+      } else {
+        Object.assign(output, { [key]: source[key] });
+      }
+    });
+  }
+  
+  return output;
+}
+
+/**
+ * Deep copy a configuration, so changes to it don't leak into the defaults
+ * @param config Configuration to copy
+ * @returns Copy
+ */
+function cloneConfig(config: Config): Config {
+  return JSON.parse(JSON.stringify(config));
+}
+
+/**
+ * Build a complete configuration from options given to the library API
+ * @param options Options overriding the defaults (a complete Config works too)
+ * @returns Configuration with every field set
+ */
+export function resolveConfig(options: ConverterOptions = {}): Config {
+  return mergeConfigs(cloneConfig(DEFAULT_CONFIG), cloneConfig(options as Config));
+}
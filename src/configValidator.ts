@@ -0,0 +1,270 @@
+import { DEFAULT_CONFIG } from './config';
+
+/**
+ * A problem found in a configuration file
+ */
+export interface ConfigIssue {
+  // Field path such as turndownOptions.headingStyle or profiles[0].name, empty for the whole file
+  path: string;
+  message: string;
+}
+
+/**
+ * Allowed values of the string fields that are unions of literals
+ */
+const ENUM_VALUES: Record<string, string[]> = {
+  'urlSource.type': ['file', 'sitemap', 'feed', 'crawl', 'directory'],
+  'contentTypes.unknown': ['skip', 'html', 'text'],
+  'crawl.scope': ['host', 'path', 'hosts'],
+  'turndownOptions.headingStyle': ['atx', 'setext'],
+  'turndownOptions.bulletListMarker': ['-', '*', '+'],
+  'turndownOptions.codeBlockStyle': ['indented', 'fenced'],
+  'turndownOptions.emDelimiter': ['*', '_'],
+  'turndownOptions.linkStyle': ['inlined', 'referenced'],
+  'turndownOptions.strongDelimiter': ['**', '__'],
+  'tables.fallback': ['html', 'list'],
+  'fileOptions.headerFormat': ['comment', 'yaml', 'toml']
+};
+
+/**
+ * Objects whose keys are free-form, with the type of their values
+ */
+const RECORD_FIELDS: Record<string, string> = {
+  'fileOptions.frontMatterTemplate': 'string'
+};
+
+/**
+ * Checks configuration files against the Config interface. The expected type
+ * of each field is taken from DEFAULT_CONFIG, so new fields are checked as
+ * soon as they have a default.
+ */
+export class ConfigValidator {
+  /**
+   * Validate a parsed configuration file. Every field is optional, missing
+   * fields keep their default.
+   * @param value Parsed JSON
+   * @returns Problems found, and a copy of the value without the invalid fields
+   */
+  public static validate(value: unknown): { issues: ConfigIssue[]; valid: any } {
+    const issues: ConfigIssue[] = [];
+    if (!this.isObject(value)) {
+      issues.push({ path: '', message: `expected an object, got ${this.describe(value)}` });
+      return { issues, valid: {} };
+    }
+
+    const valid = this.checkObject(value, DEFAULT_CONFIG, '', issues);
+    return { issues, valid };
+  }
+
+  /**
+   * Format an issue for the console
+   * @param issue Issue to format
+   * @returns One line of text
+   */
+  public static format(issue: ConfigIssue): string {
+    return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+  }
+
+  /**
+   * Check the fields of an object against the object of defaults
+   * @param value Object to check
+   * @param defaults Default values of the same object
+   * @param path Path of the object
+   * @param issues Issues found so far
+   * @returns Copy of the object with the valid fields only
+   */
+  private static checkObject(value: Record<string, unknown>, defaults: Record<string, any>, path: string, issues: ConfigIssue[]): Record<string, unknown> {
+    const valid: Record<string, unknown> = {};
+    const known = Object.keys(defaults);
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (!known.includes(key)) {
+        const suggestion = this.suggest(key, known);
+        issues.push({ path: fieldPath, message: `unknown field${suggestion ? `, did you mean "${suggestion}"?` : ''}` });
+        continue;
+      }
+
+      const checked = this.checkValue(fieldValue, defaults[key], fieldPath, issues);
+      if (checked !== undefined) valid[key] = checked;
+    }
+
+    return valid;
+  }
+
+  /**
+   * Check one value against its default
+   * @param value Value to check
+   * @param defaultValue Default of the field, which gives its type
+   * @param path Path of the field
+   * @param issues Issues found so far
+   * @returns The value, reduced to its valid parts, or undefined if it is invalid
+   */
+  private static checkValue(value: unknown, defaultValue: unknown, path: string, issues: ConfigIssue[]): unknown {
+    // Array items are checked against the same rules wherever they are
+    const rulePath = path.replace(/\[\d+\]/g, '[]').replace(/^profiles\[\]\./, '');
+
+    const recordType = RECORD_FIELDS[rulePath];
+    if (recordType) {
+      if (!this.isObject(value)) {
+        issues.push({ path, message: `expected an object of ${recordType}s, got ${this.describe(value)}` });
+        return undefined;
+      }
+      const valid: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        if (typeof item === recordType) {
+          valid[key] = item;
+        } else {
+          issues.push({ path: `${path}.${key}`, message: `expected a ${recordType}, got ${this.describe(item)}` });
+        }
+      }
+      return valid;
+    }
+
+    if (path === 'profiles') {
+      return this.checkProfiles(value, issues);
+    }
+
+    if (Array.isArray(defaultValue)) {
+      // Arrays hold strings unless their default shows otherwise
+      const itemType = defaultValue.length > 0 ? typeof defaultValue[0] : 'string';
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array of ${itemType}s, got ${this.describe(value)}` });
+        return undefined;
+      }
+      const invalid = value.findIndex(item => typeof item !== itemType);
+      if (invalid !== -1) {
+        issues.push({ path: `${path}[${invalid}]`, message: `expected a ${itemType}, got ${this.describe(value[invalid])}` });
+        return undefined;
+      }
+      return value;
+    }
+
+    if (this.isObject(defaultValue)) {
+      if (!this.isObject(value)) {
+        issues.push({ path, message: `expected an object, got ${this.describe(value)}` });
+        return undefined;
+      }
+      return this.checkObject(value, defaultValue, path, issues);
+    }
+
+    const expected = typeof defaultValue;
+    if (typeof value !== expected || (expected === 'number' && !isFinite(value as number))) {
+      const hint = expected === 'number' && typeof value === 'string' && value.trim() && isFinite(Number(value)) ? ` (remove the quotes: ${value})` : '';
+      issues.push({ path, message: `expected a ${expected}, got ${this.describe(value)}${hint}` });
+      return undefined;
+    }
+
+    const allowed = ENUM_VALUES[rulePath];
+    if (allowed && !allowed.includes(value as string)) {
+      const suggestion = this.suggest(value as string, allowed);
+      issues.push({
+        path,
+        message: `expected one of ${allowed.map(option => `"${option}"`).join(', ')}, got "${value}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`
+      });
+      return undefined;
+    }
+
+    return value;
+  }
+
+  /**
+   * Check the list of selector profiles
+   * @param value Value of the profiles field
+   * @param issues Issues found so far
+   * @returns Valid profiles, or undefined if the field isn't an array
+   */
+  private static checkProfiles(value: unknown, issues: ConfigIssue[]): unknown[] | undefined {
+    if (!Array.isArray(value)) {
+      issues.push({ path: 'profiles', message: `expected an array of profiles, got ${this.describe(value)}` });
+      return undefined;
+    }
+
+    // Profiles take the global selectors and Turndown options, read here because config.ts imports this module
+    const fields = {
+      name: '',
+      host: '',
+      path: '',
+      selectors: DEFAULT_CONFIG.selectors,
+      turndownOptions: DEFAULT_CONFIG.turndownOptions
+    };
+
+    const valid: unknown[] = [];
+    value.forEach((profile, i) => {
+      const path = `profiles[${i}]`;
+      if (!this.isObject(profile)) {
+        issues.push({ path, message: `expected an object, got ${this.describe(profile)}` });
+        return;
+      }
+      if (typeof profile.name !== 'string') {
+        issues.push({ path: `${path}.name`, message: profile.name === undefined ? 'required field is missing' : `expected a string, got ${this.describe(profile.name)}` });
+        return;
+      }
+      valid.push(this.checkObject(profile, fields, path, issues));
+    });
+    return valid;
+  }
+
+  /**
+   * Find the closest name to a misspelled one
+   * @param name Name as written
+   * @param candidates Valid names
+   * @returns Closest candidate, or null if none is close
+   */
+  private static suggest(name: string, candidates: string[]): string | null {
+    const lower = name.toLowerCase();
+    let best: string | null = null;
+    let bestDistance = Infinity;
+
+    for (const candidate of candidates) {
+      const distance = candidate.toLowerCase() === lower ? 0 : this.distance(lower, candidate.toLowerCase());
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    // Allow about one typo per four characters
+    return best !== null && bestDistance <= Math.max(1, Math.floor(name.length / 4)) ? best : null;
+  }
+
+  /**
+   * Levenshtein edit distance between two strings
+   * @param a First string
+   * @param b Second string
+   * @returns Number of single-character edits
+   */
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Describe a value for an error message
+   * @param value Value found
+   * @returns Type and a short rendering of the value
+   */
+  private static describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'object') return 'an object';
+    if (typeof value === 'string') return `string "${value.length > 40 ? `${value.substring(0, 40)}…` : value}"`;
+    return `${typeof value} ${String(value)}`;
+  }
+
+  /**
+   * Check if a value is a plain object
+   * @param value Value to check
+   * @returns True for objects that aren't arrays or null
+   */
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
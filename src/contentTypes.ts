@@ -0,0 +1,82 @@
+import { Config } from './config';
+
+/**
+ * How a response is handled: converted from HTML, passed through as text, or skipped
+ */
+export type ContentKind = 'html' | 'text' | 'skip';
+
+/**
+ * MIME types converted from HTML
+ */
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * MIME types written out as they are
+ */
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/x-markdown'];
+
+/**
+ * RSS, Atom and JSON feeds, which list pages rather than being one
+ */
+const FEED_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/feed+json'];
+
+/**
+ * Types that are never text: documents, archives and executables
+ */
+const BINARY_TYPES = [
+  'application/pdf', 'application/zip', 'application/gzip', 'application/x-gzip', 'application/x-tar',
+  'application/x-7z-compressed', 'application/x-rar-compressed', 'application/vnd.rar', 'application/x-bzip2',
+  'application/octet-stream', 'application/wasm', 'application/msword', 'application/java-archive',
+  'application/x-msdownload', 'application/x-shockwave-flash'
+];
+
+/**
+ * Prefixes of binary type families: media, fonts and office documents
+ */
+const BINARY_PREFIXES = [
+  'image/', 'audio/', 'video/', 'font/', 'model/',
+  'application/vnd.ms-', 'application/vnd.openxmlformats-officedocument.', 'application/vnd.oasis.opendocument.'
+];
+
+/**
+ * Decides what to do with a response from its Content-Type
+ */
+export class ContentTypes {
+  /**
+   * Classify a response
+   * @param contentType Content-Type header, empty if the server sent none
+   * @param options Policy for unknown types
+   * @returns How to handle the response, with the reason when it is skipped
+   */
+  public static classify(contentType: string, options: Config['contentTypes']): { kind: ContentKind; reason?: string } {
+    const mimeType = this.mimeType(contentType);
+
+    // Servers that send no type are almost always serving HTML
+    if (!mimeType || HTML_TYPES.includes(mimeType)) {
+      return { kind: 'html' };
+    }
+    if (TEXT_TYPES.includes(mimeType)) {
+      return { kind: 'text' };
+    }
+    if (FEED_TYPES.includes(mimeType)) {
+      return { kind: 'skip', reason: `${mimeType} is a feed, use it as the feed source to convert its articles` };
+    }
+    if (BINARY_TYPES.includes(mimeType) || BINARY_PREFIXES.some(prefix => mimeType.startsWith(prefix))) {
+      return { kind: 'skip', reason: `${mimeType} is a binary file` };
+    }
+
+    if (options.unknown === 'skip') {
+      return { kind: 'skip', reason: `${mimeType} is not a supported type` };
+    }
+    return { kind: options.unknown };
+  }
+
+  /**
+   * MIME type of a Content-Type header, without parameters
+   * @param contentType Header value, e.g. text/html; charset=utf-8
+   * @returns Lowercase MIME type, empty if there is none
+   */
+  public static mimeType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+  }
+}
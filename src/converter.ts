@@ -0,0 +1,1442 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as fsExtra from 'fs-extra';
+import TurndownService from 'turndown';
+import axios, { AxiosError } from 'axios';
+import sanitize from 'sanitize-filename';
+import { HtmlProcessor } from './htmlProcessor';
+import { Charset } from './charset';
+import { ContentTypes, ContentKind } from './contentTypes';
+import { SitemapParser, SitemapEntry } from './sitemapParser';
+import { FeedParser, FeedEntry } from './feedParser';
+import { Crawler } from './crawler';
+import { RobotsManager } from './robots';
+import { FrontMatter, PageMetadata } from './frontMatter';
+import { LinkRewriter } from './linkRewriter';
+import { AssetDownloader } from './assetDownloader';
+import { TableConverter } from './tableConverter';
+import { CodeBlocks } from './codeBlocks';
+import { Chunker, Chunk } from './chunker';
+import { LlmsTxt } from './llmsTxt';
+import { LocalSource } from './localSource';
+import { SelectorProfiles } from './profiles';
+import { Scheduler } from './scheduler';
+import { RetryPolicy } from './retryPolicy';
+import { UrlNormalizer } from './urlNormalizer';
+import { RunManifest, ManifestEntry } from './manifest';
+import { RunReporter, RunReport } from './runReport';
+import { Job, JobQueue, JobState } from './jobQueue';
+import { Config, ConverterOptions, resolveConfig } from './config';
+
+/**
+ * A page converted to Markdown
+ */
+export interface ConversionResult {
+  url: string;
+  // URL the page was served from after redirects
+  finalUrl: string;
+  // Markdown content without the file header
+  markdown: string;
+  // File header (comment lines or front matter) in the configured format, may be empty
+  header: string;
+  metadata: PageMetadata;
+  // Followable links found on the page
+  links: string[];
+  // Name of the selector profile used for the page, null for the global settings
+  profile: string | null;
+  // Heading-aware chunks of the Markdown, when chunks.enabled is set
+  chunks?: Chunk[];
+}
+
+/**
+ * Pages converted by a crawl and the URLs that were not
+ */
+export interface CrawlResult {
+  pages: ConversionResult[];
+  failed: { url: string; error: string }[];
+  skipped: { url: string; reason: string }[];
+}
+
+/**
+ * A URL a run would convert and the file it would be written to
+ */
+export interface PlannedPage {
+  url: string;
+  // Named after the URL; with usePageTitlesForFilenames the page title may change the name
+  filePath: string;
+}
+
+/**
+ * What happened when a URL was processed
+ */
+interface PageOutcome {
+  status: 'saved' | 'unchanged' | 'skipped' | 'failed';
+  // Links found on the page (only collected while crawling)
+  links: string[];
+  // Failure or skip reason
+  error?: string;
+  // Details for the run report
+  page?: FetchedPage;
+  httpStatus?: number | null;
+  filePath?: string;
+  wordCount?: number;
+  retries?: number;
+  // Manifest content hash of the saved page
+  contentHash?: string;
+}
+
+/**
+ * A fetched page with the response details needed for metadata
+ */
+interface FetchedPage {
+  // Decoded body: HTML, or text when kind is text
+  html: string;
+  finalUrl: string;
+  // True when a conditional request was answered with 304 Not Modified
+  notModified: boolean;
+  headers: Record<string, string>;
+  fetchedAt: Date;
+  // HTTP status, null for local files
+  status: number | null;
+  // Size of the body
+  bytes: number;
+  // Attempts it took after the first one
+  retries: number;
+  // Character encoding the body was decoded with, null when there is no body
+  charset: string | null;
+  // How the body is converted, from the Content-Type
+  kind: ContentKind;
+  // Why the page is not converted, when kind is skip
+  skipReason?: string;
+}
+
+/**
+ * Title and description of a converted page, kept for outputs written after the run
+ */
+type PageSummary = Pick<PageMetadata, 'title' | 'description'>;
+
+/**
+ * A Markdown file written or kept by a run
+ */
+interface SavedPage extends PageSummary {
+  url: string;
+  filePath: string;
+}
+
+/**
+ * Parses a URL and returns path information for creating folder structure and filename
+ * @param {string} url URL to parse
+ * @param {Config['fileOptions']} fileOptions File options
+ * @returns {Object} Object with domain, path array, and filename
+ */
+function parseUrl(url: string, fileOptions: Config['fileOptions']): { domain: string; pathParts: string[]; filename: string; originalUrl: string; } {
+  try {
+    // Create a URL object to properly parse the URL
+    const urlObj = new URL(url);
+    
+    // Get hostname without www
+    const domain = urlObj.hostname.replace(/^www\./, '');
+    
+    // Parse the pathname
+    let pathname = urlObj.pathname.replace(/^\/|\/$/g, '');
+    
+    // Handle common file extensions that should be preserved in the filename
+    const fileExtensions = ['.html', '.htm', '.xhtml', '.php', '.asp', '.aspx', '.jsp', '.txt', '.md', '.markdown'];
+    let hasExtension = false;
+    
+    for (const ext of fileExtensions) {
+      if (pathname.toLowerCase().endsWith(ext)) {
+        pathname = pathname.slice(0, -ext.length);
+        hasExtension = true;
+        break;
+      }
+    }
+    
+    // Split the pathname into parts
+    const pathParts = pathname ? pathname.split('/').filter(Boolean) : [];
+    
+    // Determine filename - use the last path part or 'index' for the root path
+    let filename = pathParts.length > 0 ? pathParts[pathParts.length - 1] : 'index';
+    
+    // Handle URL with query parameters
+    if (urlObj.search) {
+      if (fileOptions.preserveUrlFilenames) {
+        // Add all query parameters to the filename to ensure uniqueness
+        const queryStr = urlObj.search.replace(/^\?/, '');
+        // Create a hash of the query string to avoid extremely long filenames
+        if (queryStr.length > 0) {
+          // Simple hash function for shorter filenames
+          const hashCode = (s: string) => {
+            let hash = 0;
+            for (let i = 0; i < s.length; i++) {
+              const char = s.charCodeAt(i);
+              hash = ((hash << 5) - hash) + char;
+              hash = hash & hash; // Convert to 32bit integer
+            }
+            return Math.abs(hash).toString(16); // Convert to hex
+          };
+          
+          const queryHash = hashCode(queryStr);
+          filename = `${filename}-${queryHash}`;
+        }
+      } else {
+        // Create a more descriptive filename from specific query parameters
+        const searchParams = new URLSearchParams(urlObj.search);
+        const keyParam = searchParams.get('id') || searchParams.get('page') || searchParams.get('slug');
+        if (keyParam) {
+          filename = `${filename}-${sanitize(keyParam)}`;
+        }
+      }
+    }
+    
+    // Clean up the filename
+    filename = sanitize(filename);
+    if (!filename) filename = 'index';
+    
+    // Remove filename from pathParts if it exists
+    if (pathParts.length > 0) {
+      pathParts.pop();
+    }
+    
+    return {
+      domain,
+      pathParts,
+      filename: `${filename}.md`,
+      originalUrl: url // Keep the original URL for reference
+    };
+  } catch (error) {
+    // Fallback if URL parsing fails
+    const sanitizedUrl = url
+      .replace(/^https?:\/\/(www\.)?/, '')
+      .split(/[?#]/)[0]
+      .replace(/\/$/, '');
+      
+    const parts = sanitizedUrl.split('/');
+    const domain = parts[0];
+    const pathParts = parts.slice(1, -1);
+    const filename = parts.length > 1 ? parts[parts.length - 1] : 'index';
+    
+    return {
+      domain,
+      pathParts,
+      filename: `${sanitize(filename || 'index')}.md`,
+      originalUrl: url
+    };
+  }
+}
+
+/**
+ * Converts web pages to Markdown with the settings it was created with.
+ * A converter keeps robots.txt rules and downloaded assets cached, so reuse
+ * one instance for related calls.
+ */
+export class Converter {
+  public readonly config: Config;
+  private robots: RobotsManager;
+  private assets: AssetDownloader;
+  private scheduler: Scheduler;
+  private retryPolicy: RetryPolicy;
+
+  // State of the current run() or crawl()
+  private normalizer: UrlNormalizer;
+  private jobs: JobQueue | null = null;
+  // Set when converting local HTML files instead of fetching URLs
+  private localSource: LocalSource | null = null;
+  private manifest: RunManifest | null = null;
+  // URLs that were not processed, with the reason
+  private skippedUrls: { url: string; reason: string }[] = [];
+  // Converted page URL -> Markdown file it was saved to
+  private savedPages = new Map<string, string>();
+  // Converted page URL -> title and description, for chunks and llms.txt
+  private pageSummaries = new Map<string, PageSummary>();
+  // Converted page URL -> Markdown before links are rewritten, for chunks and llms-full.txt
+  private pageMarkdown = new Map<string, string>();
+  // Sitemap URL -> <lastmod> value, used as a hint that a page is unchanged
+  private sitemapLastmod = new Map<string, string>();
+  // Feed article URL -> feed entry, for its metadata and content
+  private feedEntries = new Map<string, FeedEntry>();
+  private reporter: RunReporter | null = null;
+  private report: RunReport | null = null;
+
+  /**
+   * Constructor
+   * @param options Options overriding the default configuration
+   */
+  constructor(options: ConverterOptions = {}) {
+    this.config = resolveConfig(options);
+    this.robots = new RobotsManager(this.config);
+    this.retryPolicy = new RetryPolicy(this.config);
+    this.assets = new AssetDownloader(this.config, this.retryPolicy);
+    this.scheduler = new Scheduler(this.config);
+    this.normalizer = new UrlNormalizer(this.config.urlNormalization);
+  }
+
+  /**
+   * Convert an HTML document to Markdown
+   * @param {string} html HTML content
+   * @param {string} url URL of the document (for relative links and metadata)
+   * @returns {Promise<ConversionResult>} Markdown, header and metadata
+   */
+  public async convertHtml(html: string, url: string): Promise<ConversionResult> {
+    const metadata = HtmlProcessor.extractMetadata(html, url);
+    return this.convertDocument(html, url, url, metadata);
+  }
+
+  /**
+   * Fetch a page and convert it to Markdown. Nothing is written to disk.
+   * @param {string} url URL to fetch
+   * @returns {Promise<ConversionResult>} Markdown, header and metadata
+   */
+  public async convertUrl(url: string): Promise<ConversionResult> {
+    const verdict = await this.robots.check(url);
+    if (!verdict.allowed) {
+      throw new Error(`Skipped ${url}: ${verdict.reason || 'disallowed by robots.txt'}`);
+    }
+
+    const page = await this.fetchHtmlContent(url);
+    if (page.kind === 'skip') {
+      throw new Error(`Skipped ${url}: ${page.skipReason}`);
+    }
+    return this.convertPage(page, url, this.getPageMetadata(page, url));
+  }
+
+  /**
+   * Crawl from seed URLs within the configured crawl limits and scope and
+   * convert every page found. Nothing is written to disk.
+   * @param {string[]} seeds URLs to start from
+   * @returns {Promise<CrawlResult>} Converted pages and the URLs that failed or were skipped
+   */
+  public async crawl(seeds: string[]): Promise<CrawlResult> {
+    const jobs = JobQueue.create(null, `crawl:${seeds.join(',')}`);
+    const result: CrawlResult = { pages: [], failed: [], skipped: [] };
+    this.normalizer = new UrlNormalizer(this.config.urlNormalization);
+    Crawler.addSeeds(jobs, seeds.map(seed => this.normalizer.resolve(seed)));
+
+    await new Crawler(jobs, async job => {
+      const verdict = await this.robots.check(job.url);
+      if (!verdict.allowed) {
+        const reason = verdict.reason || 'disallowed by robots.txt';
+        result.skipped.push({ url: job.url, reason });
+        jobs.mark(job.url, 'skipped', reason);
+        return null;
+      }
+
+      try {
+        const page = await this.fetchHtmlContent(job.url);
+        if (page.kind === 'skip') {
+          result.skipped.push({ url: job.url, reason: page.skipReason! });
+          jobs.mark(job.url, 'skipped', page.skipReason);
+          return null;
+        }
+        const metadata = this.getPageMetadata(page, job.url);
+
+        const duplicateOf = this.normalizer.claim(job.url, metadata.canonical);
+        if (duplicateOf) {
+          const reason = `duplicate of ${duplicateOf}`;
+          result.skipped.push({ url: job.url, reason });
+          jobs.mark(job.url, 'skipped', reason);
+          return null;
+        }
+
+        const converted = await this.convertPage(page, job.url, metadata);
+        result.pages.push(converted);
+        jobs.mark(job.url, 'done');
+        return converted.links.map(link => this.normalizer.resolve(link));
+      } catch (error: any) {
+        result.failed.push({ url: job.url, error: error.message });
+        jobs.mark(job.url, 'failed', error.message);
+        return null;
+      }
+    }, this.config, this.scheduler).run();
+
+    return result;
+  }
+
+  /**
+   * List the URLs the configured source would convert and their output files,
+   * without fetching any page. A sitemap or feed is still fetched to list its
+   * URLs, and a crawl lists only its seeds.
+   * @returns {Promise<PlannedPage[]>} Planned pages in source order
+   */
+  public async plan(): Promise<PlannedPage[]> {
+    this.normalizer = new UrlNormalizer(this.config.urlNormalization);
+    const urlSource = this.config.urlSource;
+    this.localSource = urlSource.type === 'directory'
+      ? new LocalSource(urlSource.directory, urlSource.baseUrl)
+      : null;
+
+    const urls = urlSource.type === 'crawl' ? urlSource.seeds : await this.getUrls();
+    const planned = new Map<string, PlannedPage>();
+
+    for (const url of urls) {
+      const target = this.localSource ? url : this.normalizer.resolve(url);
+      if (planned.has(target)) continue;
+
+      const { filePath } = this.localSource
+        ? this.localSource.getOutputPaths(target, this.config.outputDir)
+        : this.getOutputPaths(target);
+      planned.set(target, { url: target, filePath });
+    }
+
+    return Array.from(planned.values());
+  }
+
+  /**
+   * Read the entries of a sitemap, with the sitemap filter applied
+   * @param {string} sitemapSource URL of the sitemap, or a domain to discover sitemaps for
+   * @returns {Promise<SitemapEntry[]>} Entries of every sitemap found
+   */
+  public async listSitemap(sitemapSource: string): Promise<SitemapEntry[]> {
+    const sitemapUrls = await SitemapParser.resolveSitemapUrls(sitemapSource, this.robots);
+    const entries: SitemapEntry[] = [];
+
+    for (const sitemapUrl of sitemapUrls) {
+      console.log(`🌐 Fetching URLs from sitemap: ${sitemapUrl}`);
+      entries.push(...await SitemapParser.parseFromUrl(sitemapUrl, this.config, this.scheduler, this.retryPolicy));
+    }
+    return entries;
+  }
+
+  /**
+   * Convert the configured URL source and write the Markdown files to the output directory
+   * @returns {Promise<Record<JobState, number>>} Number of URLs per final state
+   */
+  public async run(): Promise<Record<JobState, number>> {
+    this.skippedUrls = [];
+    this.savedPages.clear();
+    this.pageSummaries.clear();
+    this.pageMarkdown.clear();
+    this.sitemapLastmod.clear();
+    this.feedEntries.clear();
+    this.manifest = null;
+    this.normalizer = new UrlNormalizer(this.config.urlNormalization);
+    this.reporter = new RunReporter(this.describeSource());
+    this.report = null;
+
+    const urlSource = this.config.urlSource;
+    this.localSource = urlSource.type === 'directory'
+      ? new LocalSource(urlSource.directory, urlSource.baseUrl)
+      : null;
+
+    // Ensure output directory exists
+    await fsExtra.ensureDir(this.config.outputDir);
+
+    // Load the previous run's manifest for conditional requests
+    if (this.config.incremental.enabled) {
+      this.manifest = await RunManifest.load(this.config);
+    }
+
+    const jobs = await this.prepareJobs();
+    if (!jobs) {
+      await this.writeReport();
+      return { pending: 0, done: 0, failed: 0, skipped: 0 };
+    }
+    this.jobs = jobs;
+
+    // Process URLs
+    if (this.config.urlSource.type === 'crawl') {
+      const visited = await new Crawler(jobs, async job => {
+        const links = await this.processJob(jobs, job);
+        return links && links.map(link => this.normalizer.resolve(link));
+      }, this.config, this.scheduler).run();
+      console.log(`📋 Crawled ${visited} URLs`);
+    } else {
+      await this.processUrls(jobs);
+    }
+
+    await jobs.save();
+    await this.manifest?.save();
+    // Chunks and llms-full.txt are built from the Markdown kept before links are rewritten, so they keep absolute URLs
+    const pages = this.getSavedPages();
+    await this.writeChunks(pages);
+    await this.writeLlmsTxt(pages);
+    await this.rewriteInternalLinks();
+    this.reportSkippedUrls();
+    await this.writeReport();
+
+    return jobs.counts();
+  }
+
+  /**
+   * Report of the last run(): the outcome of every URL it processed and the totals
+   * @returns {RunReport | null} Report, or null before the first run
+   */
+  public getReport(): RunReport | null {
+    return this.report;
+  }
+
+  /**
+   * Write the state of the current run right away, for use while the process
+   * is exiting, so the run can be resumed
+   */
+  public saveStateSync(): void {
+    this.jobs?.saveSync();
+    this.manifest?.saveSync();
+  }
+
+  /**
+   * Gets URLs from the configured source (file, sitemap, feed or directory)
+   * @returns {Promise<string[]>} Array of URLs
+   */
+  private async getUrls(): Promise<string[]> {
+    // Check which source to use
+    if (this.localSource) {
+      return this.getLocalUrls(this.localSource);
+    } else if (this.config.urlSource.type === 'sitemap' && this.config.urlSource.sitemap) {
+      return this.getSitemapUrls(this.config.urlSource.sitemap);
+    } else if (this.config.urlSource.type === 'feed' && this.config.urlSource.feed) {
+      return this.getFeedUrls(this.config.urlSource.feed);
+    } else {
+      return this.getFileUrls(this.config.urlSource.file);
+    }
+  }
+
+  /**
+   * Reads URLs from a file and returns them as an array
+   * @param {string} filePath Path to the URLs file
+   * @returns {Promise<string[]>} Array of URLs
+   */
+  private async getFileUrls(filePath: string): Promise<string[]> {
+    try {
+      console.log(`📋 Reading URLs from file: ${filePath}`);
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      const urls = content
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('//'));
+
+      console.log(`📊 Found ${urls.length} URLs in file`);
+      return urls;
+    } catch (error: any) {
+      console.error(`❌ Error reading URLs file: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Lists the local HTML files matching the include patterns
+   * @param {LocalSource} localSource Directory to list
+   * @returns {Promise<string[]>} Page URLs of the files
+   */
+  private async getLocalUrls(localSource: LocalSource): Promise<string[]> {
+    try {
+      console.log(`📋 Reading HTML files from directory: ${this.config.urlSource.directory}`);
+      const urls = await localSource.listUrls(this.config.urlSource.include);
+      console.log(`📊 Found ${urls.length} HTML files in directory`);
+      return urls;
+    } catch (error: any) {
+      console.error(`❌ Error reading directory: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches URLs from a sitemap URL
+   * @param {string} sitemapSource URL of the sitemap, or a domain to discover sitemaps for
+   * @returns {Promise<string[]>} Array of URLs
+   */
+  private async getSitemapUrls(sitemapSource: string): Promise<string[]> {
+    try {
+      const urls: string[] = [];
+
+      for (const entry of await this.listSitemap(sitemapSource)) {
+        urls.push(entry.loc);
+        if (entry.lastmod) {
+          this.sitemapLastmod.set(this.normalizer.normalize(entry.loc), entry.lastmod);
+        }
+      }
+
+      console.log(`📊 Found ${urls.length} URLs in sitemap`);
+      return urls;
+    } catch (error: any) {
+      console.error(`❌ Error fetching sitemap: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Reads the article URLs of an RSS or Atom feed and keeps the entries for their metadata
+   * @param {string} feedUrl URL of the feed
+   * @returns {Promise<string[]>} Array of URLs
+   */
+  private async getFeedUrls(feedUrl: string): Promise<string[]> {
+    try {
+      const entries = await FeedParser.parseFromUrl(feedUrl, this.config, this.scheduler, this.retryPolicy);
+      for (const entry of entries) {
+        this.feedEntries.set(this.normalizer.normalize(entry.url), entry);
+      }
+      return entries.map(entry => entry.url);
+    } catch (error: any) {
+      console.error(`❌ Error reading feed: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Gets the full output path for a URL
+   * @param {string} url URL to convert
+   * @param {string} pageTitle Optional page title to use for filename
+   * @returns {Object} Object with directory path and full file path
+   */
+  private getOutputPaths(url: string, pageTitle?: string | null): { dirPath: string; filePath: string } {
+    const fileOptions = this.config.fileOptions;
+    const { domain, pathParts, filename: defaultFilename } = parseUrl(url, fileOptions);
+
+    // Create the directory structure
+    const domainDir = sanitize(domain);
+    const pathDirs = pathParts.map(part => sanitize(part));
+
+    // Use domain subfolders if configured, otherwise flatten structure
+    let dirParts: string[];
+    if (fileOptions.useDomainSubfolders) {
+      dirParts = [this.config.outputDir, domainDir, ...pathDirs];
+    } else {
+      dirParts = [this.config.outputDir, ...pathDirs];
+    }
+
+    const dirPath = path.join(...dirParts);
+
+    // Use page title for filename if configured and available, unless preserveUrlFilenames is true
+    let filename = defaultFilename;
+    if (fileOptions.usePageTitlesForFilenames && pageTitle && !fileOptions.preserveUrlFilenames) {
+      // Replace invalid filename characters and trim length
+      let titleFilename = sanitize(pageTitle);
+
+      // Limit filename length (max 100 chars)
+      if (titleFilename.length > 100) {
+        titleFilename = titleFilename.substring(0, 100);
+      }
+
+      // Only use title if it's not empty after sanitization
+      if (titleFilename) {
+        filename = `${titleFilename}.md`;
+      }
+    }
+
+    return {
+      dirPath,
+      filePath: path.join(dirPath, filename)
+    };
+  }
+
+  /**
+   * Fetches HTML content from a URL
+   * @param {string} url URL to fetch
+   * @param {ManifestEntry} previous Manifest entry of the last run, for a conditional request
+   * @param {boolean} noCache Ask caches on the way for a fresh copy of the page
+   * @returns {Promise<FetchedPage>} HTML content and response headers
+   */
+  private async fetchHtmlContent(url: string, previous?: ManifestEntry, noCache = false): Promise<FetchedPage> {
+    const { timeout } = this.config;
+
+    const requestHeaders: Record<string, string> = {
+      'User-Agent': this.config.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+    };
+
+    // Ask the server to skip the body if the page hasn't changed since the last run
+    if (previous?.etag) {
+      requestHeaders['If-None-Match'] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      requestHeaders['If-Modified-Since'] = previous.lastModified;
+    }
+    if (noCache) {
+      requestHeaders['Cache-Control'] = 'no-cache';
+    }
+
+    try {
+      const { result: { response, body, kind, skipReason }, retries } = await this.retryPolicy.execute(url, async () => {
+        // Honor the origin's Crawl-delay and the per-host rate limit, on every attempt
+        await this.robots.waitForCrawlDelay(url);
+        await this.scheduler.throttle(url);
+
+        console.log(`Fetching: ${url}`);
+
+        // Stream the raw bytes: the type decides whether the body is read, the encoding is worked out before decoding it
+        const response = await axios.get(url, {
+          timeout,
+          headers: requestHeaders,
+          responseType: 'stream',
+          validateStatus: status => (status >= 200 && status < 300) || status === 304
+        }).catch(error => {
+          // Error responses are streamed too, and an unread body holds its connection open
+          error.response?.data?.destroy();
+          throw error;
+        });
+
+        if (response.status === 304) {
+          response.data.destroy();
+          return { response, body: null, kind: 'html' as ContentKind };
+        }
+
+        // Binaries and other unwanted types are dropped before their body is downloaded
+        const { kind, reason } = ContentTypes.classify(String(response.headers['content-type'] || ''), this.config.contentTypes);
+        const limit = this.config.contentTypes.maxResponseBytes;
+        const body = kind === 'skip' || (limit > 0 && Number(response.headers['content-length']) > limit)
+          ? null
+          : await this.readBody(response.data, limit, timeout);
+        if (!body) {
+          response.data.destroy();
+          return { response, body, kind: 'skip' as ContentKind, skipReason: reason || `response is larger than contentTypes.maxResponseBytes (${limit} bytes)` };
+        }
+        return { response, body, kind };
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = String(value);
+        }
+      }
+
+      // Follow redirects so links to the redirect target can be matched too
+      const finalUrl = response.request?.res?.responseUrl || url;
+
+      const notModified = response.status === 304;
+      const { text: html, charset } = body ? Charset.decode(body, headers['content-type']) : { text: '', charset: null };
+      return {
+        html,
+        finalUrl,
+        notModified,
+        headers,
+        fetchedAt: new Date(),
+        status: response.status,
+        bytes: body ? body.length : Number(headers['content-length']) || 0,
+        retries,
+        charset,
+        kind,
+        skipReason
+      };
+    } catch (error: any) {
+      const retries = error.retries ?? 0;
+      console.error(`Failed to fetch ${url}${retries ? ` after ${retries + 1} attempts` : ''}: ${error.message}`);
+      // Kept for the run report
+      error.retries = retries;
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a response body, up to a size limit. The stream is destroyed if reading fails.
+   * @param {Readable} stream Response stream
+   * @param {number} limit Largest body in bytes, 0 for no limit
+   * @param {number} timeout Time allowed for the whole body in milliseconds, 0 for no limit
+   * @returns {Promise<Buffer | null>} Body, or null if it is larger than the limit
+   */
+  private readBody(stream: Readable, limit: number, timeout: number): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        stream.destroy();
+        reject(error);
+      };
+      // The request timeout stops once the headers arrive, so a stalled body needs its own
+      const timer = timeout > 0
+        ? setTimeout(() => fail(new AxiosError(`Timed out reading the response body after ${timeout}ms`, 'ETIMEDOUT')), timeout)
+        : undefined;
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (limit > 0 && size > limit) {
+          clearTimeout(timer);
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('end', () => {
+        clearTimeout(timer);
+        resolve(Buffer.concat(chunks));
+      });
+      stream.on('error', fail);
+    });
+  }
+
+  /**
+   * Uses the content of a feed entry as if the article had been fetched
+   * @param {string} url Article URL
+   * @param {FeedEntry} entry Feed entry with content
+   * @returns {FetchedPage} Entry content as an HTML document
+   */
+  private readFeedContent(url: string, entry: FeedEntry): FetchedPage {
+    console.log(`Using feed content: ${url}`);
+    return {
+      html: `<html><body>${entry.content}</body></html>`,
+      finalUrl: url,
+      notModified: false,
+      headers: {},
+      fetchedAt: new Date(),
+      status: null,
+      bytes: Buffer.byteLength(entry.content || ''),
+      retries: 0,
+      charset: null,
+      kind: 'html'
+    };
+  }
+
+  /**
+   * Reads a local HTML file as if it had been fetched
+   * @param {LocalSource} localSource Directory holding the file
+   * @param {string} url Page URL of the file
+   * @returns {Promise<FetchedPage>} HTML content, with the file time as Last-Modified
+   */
+  private async readLocalFile(localSource: LocalSource, url: string): Promise<FetchedPage> {
+    console.log(`Reading: ${url}`);
+    const { html, charset, modifiedAt } = await localSource.read(url);
+    return {
+      html,
+      finalUrl: url,
+      notModified: false,
+      headers: { 'last-modified': modifiedAt.toUTCString() },
+      fetchedAt: new Date(),
+      status: null,
+      bytes: Buffer.byteLength(html),
+      retries: 0,
+      charset,
+      // Text and Markdown files in the folder are copied as they are
+      kind: /\.(txt|md|markdown)$/i.test(url) ? 'text' : 'html'
+    };
+  }
+
+  /**
+   * Reads the metadata of a fetched page
+   * @param {FetchedPage} page Fetched page
+   * @param {string} url Requested URL
+   * @returns {PageMetadata} Metadata for the file header
+   */
+  private getPageMetadata(page: FetchedPage, url: string): PageMetadata {
+    // Read metadata before processing strips the attributes it lives in
+    const metadata: PageMetadata = {
+      ...(page.kind === 'text' ? this.extractTextMetadata(page.html, url) : HtmlProcessor.extractMetadata(page.html, url)),
+      fetchedAt: page.fetchedAt.toISOString(),
+      lastModified: page.headers['last-modified'] ? new Date(page.headers['last-modified']).toISOString() : null,
+      charset: page.charset
+    };
+
+    // A feed names the article better than its <title>, which often carries the site name
+    const entry = this.feedEntries.get(this.normalizer.normalize(url));
+    if (entry) {
+      metadata.title = entry.title || metadata.title;
+      metadata.published = entry.published;
+      metadata.author = entry.author;
+    }
+    return metadata;
+  }
+
+  /**
+   * Reads the metadata of a text or Markdown document
+   * @param {string} text Document content
+   * @param {string} url Requested URL
+   * @returns {PageMetadata} Metadata with the first heading as the title
+   */
+  private extractTextMetadata(text: string, url: string): PageMetadata {
+    const heading = text.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m);
+    return { url, title: heading ? heading[1] : null };
+  }
+
+  /**
+   * Converts a fetched page by its kind: HTML through Turndown, text as it is
+   * @param {FetchedPage} page Fetched page
+   * @param {string} url Requested URL
+   * @param {PageMetadata} metadata Metadata for the file header
+   * @param {string} dirPath Directory the Markdown file is written to, for downloaded assets
+   * @returns {Promise<ConversionResult>} Converted page
+   */
+  private async convertPage(page: FetchedPage, url: string, metadata: PageMetadata, dirPath?: string): Promise<ConversionResult> {
+    if (page.kind !== 'text') {
+      return this.convertDocument(page.html, url, page.finalUrl, metadata, dirPath);
+    }
+
+    console.log(`Passing text through: ${url}`);
+    const markdown = page.html.replace(/\r\n?/g, '\n').trim();
+    return {
+      url,
+      finalUrl: page.finalUrl,
+      markdown,
+      header: FrontMatter.build(metadata, this.config.fileOptions),
+      metadata,
+      links: [],
+      profile: null,
+      chunks: this.config.chunks.enabled ? Chunker.split(markdown, this.config.chunks) : undefined
+    };
+  }
+
+  /**
+   * Processes an HTML document and converts it to Markdown
+   * @param {string} html HTML content
+   * @param {string} url Requested URL
+   * @param {string} finalUrl URL after redirects (for resolving links)
+   * @param {PageMetadata} metadata Metadata for the file header
+   * @param {string} dirPath Directory the Markdown file is written to, for downloaded assets
+   * @returns {Promise<ConversionResult>} Converted page
+   */
+  private async convertDocument(html: string, url: string, finalUrl: string, metadata: PageMetadata, dirPath?: string): Promise<ConversionResult> {
+    // Links in local files are relative to the folder, the base URL makes them point at the site
+    const resolveRelative = this.localSource !== null && this.config.urlSource.baseUrl !== '';
+    const { config, profile } = SelectorProfiles.resolve(this.config, url);
+    if (profile) {
+      console.log(`🎯 Profile "${profile}" matched ${url}`);
+    }
+
+    let processedHtml = HtmlProcessor.process(html, config, url, resolveRelative);
+    if (dirPath && this.config.assets.download) {
+      processedHtml = await this.assets.localize(processedHtml, url, dirPath);
+    }
+
+    const markdown = this.convertHtmlWithContent(url, processedHtml, config.turndownOptions);
+    return {
+      url,
+      finalUrl,
+      markdown,
+      header: FrontMatter.build(metadata, this.config.fileOptions),
+      metadata,
+      links: Crawler.extractLinks(html, finalUrl),
+      profile,
+      chunks: this.config.chunks.enabled ? Chunker.split(markdown, this.config.chunks) : undefined
+    };
+  }
+
+  /**
+   * Converts already processed HTML content to Markdown using Turndown
+   * @param {string} url Source URL (for logging)
+   * @param {string} htmlContent HTML content to convert
+   * @param {Config['turndownOptions']} options Turndown options for the page
+   * @returns {string} Markdown content without the file header
+   */
+  private convertHtmlWithContent(url: string, htmlContent: string, options: Config['turndownOptions']): string {
+    try {
+      console.log(`Converting already fetched HTML: ${url}`);
+
+      // Set up Turndown with default options first
+      const turndownService = new TurndownService();
+
+      // Apply options manually to avoid TypeScript issues with strict types
+      turndownService.options.headingStyle = options.headingStyle;
+      turndownService.options.hr = options.hr;
+      turndownService.options.bulletListMarker = options.bulletListMarker;
+      turndownService.options.codeBlockStyle = options.codeBlockStyle;
+      turndownService.options.emDelimiter = options.emDelimiter as any;
+      turndownService.options.linkStyle = options.linkStyle;
+      turndownService.options.strongDelimiter = options.strongDelimiter as any;
+
+      // Add rules to improve conversion
+      turndownService.addRule('removeComments', {
+        filter: function(node) {
+          return node.nodeType === 8; // Comment node
+        },
+        replacement: function() {
+          return '';
+        }
+      });
+
+      // Preserve line breaks
+      turndownService.addRule('lineBreaks', {
+        filter: ['br'],
+        replacement: function() {
+          return '\n';
+        }
+      });
+
+      // Link to video and audio, which have no Markdown syntax
+      turndownService.addRule('mediaLinks', {
+        filter: ['video', 'audio'],
+        replacement: function(content, node) {
+          const element = node as HTMLElement;
+          const src = element.getAttribute('src') || element.querySelector('source[src]')?.getAttribute('src');
+          if (!src) return content;
+
+          const label = element.getAttribute('title') || (element.nodeName === 'VIDEO' ? 'Video' : 'Audio');
+          const poster = element.getAttribute('poster');
+          const link = poster ? `[![${label}](${poster})](${src})` : `[${label}](${src})`;
+          return '\n\n' + link + '\n\n';
+        }
+      });
+
+      // GitHub-flavored Markdown tables
+      TableConverter.addRules(turndownService, this.config.tables);
+
+      // Code blocks with their language and exact whitespace
+      CodeBlocks.addRules(turndownService, options);
+
+      // Convert HTML to Markdown
+      const markdownContent = turndownService.turndown(htmlContent);
+
+      if (!markdownContent) {
+        throw new Error('Failed to convert HTML to markdown');
+      }
+
+      return markdownContent;
+    } catch (error: any) {
+      console.error(`Error converting HTML content: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Processes a URL to convert it to markdown and save to disk
+   * @param {string} url URL to process
+   * @returns {Promise<PageOutcome>} Outcome with the links found on the page
+   */
+  private async processUrl(url: string): Promise<PageOutcome> {
+    const localSource = this.localSource;
+
+    try {
+      if (localSource) {
+        return await this.processPage(url, await this.readLocalFile(localSource, url), this.manifest?.get(url));
+      }
+
+      // Articles whose full content is in the feed are converted without fetching them
+      const feedEntry = this.feedEntries.get(this.normalizer.normalize(url));
+      if (this.config.urlSource.useFeedContent && feedEntry?.content) {
+        return await this.processPage(url, this.readFeedContent(url, feedEntry), this.manifest?.get(url));
+      }
+
+      // Check robots.txt before fetching
+      const verdict = await this.robots.check(url);
+      if (!verdict.allowed) {
+        const reason = verdict.reason || 'disallowed by robots.txt';
+        this.skippedUrls.push({ url, reason });
+        console.log(`⏭️ Skipped ${url}: ${reason}`);
+        return { status: 'skipped', links: [], error: reason };
+      }
+
+      const crawling = this.config.urlSource.type === 'crawl';
+
+      // While crawling, an entry is only useful if it remembers the page's links
+      let previous = this.manifest?.get(url);
+      if (crawling && previous && !previous.links) {
+        previous = undefined;
+      }
+      // Chunks and llms-full.txt are built from the page's Markdown, which entries of runs without them don't hold
+      if (this.keepsMarkdown() && previous && previous.markdown === undefined) {
+        previous = undefined;
+      }
+
+      // A sitemap <lastmod> older than the last fetch means the page hasn't changed
+      const lastmod = this.sitemapLastmod.get(this.normalizer.normalize(url));
+      if (previous && lastmod && new Date(lastmod).getTime() <= new Date(previous.fetchedAt).getTime()) {
+        console.log(`🟰 Unchanged (sitemap lastmod): ${url}`);
+        this.keepPrevious(url, previous);
+        return { status: 'unchanged', links: previous.links || [], filePath: previous.outputPath, contentHash: previous.contentHash };
+      }
+
+      // Fetch HTML first so it can be used for the title and for link discovery
+      let page = await this.fetchHtmlContent(url, previous);
+
+      if (page.notModified && previous) {
+        console.log(`🟰 Not modified: ${url}`);
+        this.keepPrevious(url, previous);
+        return { status: 'unchanged', links: previous.links || [], page, filePath: previous.outputPath, contentHash: previous.contentHash };
+      }
+
+      // Without an earlier output to keep, a 304 has no page to convert, so it is fetched again without validators
+      if (page.notModified) {
+        console.log(`🔄 Not modified without an earlier copy, fetching again: ${url}`);
+        page = await this.fetchHtmlContent(url, undefined, true);
+        if (page.notModified) {
+          throw new Error('Server answered 304 Not Modified to a request without validators');
+        }
+      }
+
+      if (page.kind === 'skip') {
+        const reason = page.skipReason!;
+        this.skippedUrls.push({ url, reason });
+        console.log(`⏭️ Skipped ${url}: ${reason}`);
+        return { status: 'skipped', links: [], error: reason, page };
+      }
+
+      return await this.processPage(url, page, previous);
+    } catch (error: any) {
+      console.error(`❌ Error processing ${url}: ${error.message}`);
+      return { status: 'failed', links: [], error: error.message, httpStatus: error.response?.status ?? null, retries: error.retries ?? 0 };
+    }
+  }
+
+  /**
+   * Converts a fetched page and saves it unless it is unchanged since the last run
+   * @param {string} url Requested URL
+   * @param {FetchedPage} page Fetched page
+   * @param {ManifestEntry} previous Manifest entry of the last run
+   * @returns {Promise<PageOutcome>} Outcome with the links found on the page
+   */
+  private async processPage(url: string, page: FetchedPage, previous?: ManifestEntry): Promise<PageOutcome> {
+    const crawling = this.config.urlSource.type === 'crawl';
+    const metadata = this.getPageMetadata(page, url);
+    let pageTitle: string | null = null;
+
+    // A page already converted under another URL or with the same rel="canonical" is not saved twice
+    const duplicateOf = this.localSource ? null : this.normalizer.claim(url, metadata.canonical);
+    if (duplicateOf) {
+      const reason = `duplicate of ${duplicateOf}`;
+      this.skippedUrls.push({ url, reason });
+      console.log(`⏭️ Skipped ${url}: ${reason}`);
+      return { status: 'skipped', links: [], error: reason, page };
+    }
+    const canonical = this.localSource ? null : this.normalizer.canonicalFor(url, metadata.canonical);
+
+    if (this.config.fileOptions.usePageTitlesForFilenames && !this.localSource) {
+      pageTitle = metadata.title || null;
+
+      if (pageTitle) {
+        console.log(`Found page title: "${pageTitle}"`);
+      } else {
+        console.log(`No page title found, using default filename`);
+      }
+    }
+
+    // Local files mirror the input folder, URLs get paths from the URL or the page title
+    const { dirPath, filePath } = this.localSource
+      ? this.localSource.getOutputPaths(url, this.config.outputDir)
+      : this.getOutputPaths(canonical || url, pageTitle);
+
+    // Asset downloads need the network, so they are left out for local files
+    const assetDir = this.localSource ? undefined : dirPath;
+    const { markdown, header, links } = await this.convertPage(page, url, metadata, assetDir);
+
+    // Hash without the fetch date, so a new date alone doesn't count as a change
+    const contentHash = RunManifest.hashContent(FrontMatter.build({ ...metadata, fetchedAt: null }, this.config.fileOptions) + markdown);
+
+    const unchanged = previous !== undefined && previous.contentHash === contentHash && previous.outputPath === filePath;
+    if (unchanged) {
+      console.log(`🟰 Unchanged: ${filePath}`);
+    } else {
+      // Ensure directory structure exists
+      await fsExtra.ensureDir(dirPath);
+
+      // Write markdown to file, starting with the configured header
+      await fs.promises.writeFile(filePath, header + markdown, 'utf-8');
+      console.log(`✅ Saved: ${filePath}`);
+    }
+
+    this.manifest?.set({
+      url,
+      outputPath: filePath,
+      etag: page.headers['etag'],
+      lastModified: page.headers['last-modified'],
+      contentHash,
+      fetchedAt: metadata.fetchedAt!,
+      title: metadata.title,
+      description: metadata.description,
+      // Links are only needed to discover pages while crawling
+      links: crawling ? links : undefined,
+      markdown: this.keepsMarkdown() ? markdown : undefined
+    });
+
+    this.savedPages.set(url, filePath);
+    this.pageSummaries.set(url, { title: metadata.title, description: metadata.description });
+    if (this.keepsMarkdown()) {
+      this.pageMarkdown.set(url, markdown);
+    }
+    if (page.finalUrl !== url) {
+      this.savedPages.set(page.finalUrl, filePath);
+    }
+    if (canonical) {
+      this.savedPages.set(canonical, filePath);
+    }
+
+    return { status: unchanged ? 'unchanged' : 'saved', links, page, filePath, wordCount: RunReporter.countWords(markdown), contentHash };
+  }
+
+  /**
+   * Registers a page that is unchanged since the last run under its previous output
+   * @param {string} url Requested URL
+   * @param {ManifestEntry} previous Manifest entry of the last run
+   */
+  private keepPrevious(url: string, previous: ManifestEntry): void {
+    this.savedPages.set(url, previous.outputPath);
+    this.pageSummaries.set(url, { title: previous.title, description: previous.description });
+    if (previous.markdown !== undefined) {
+      this.pageMarkdown.set(url, previous.markdown);
+    }
+  }
+
+  /**
+   * Whether the Markdown of each page is kept for the outputs written after the run
+   * @returns {boolean} True when chunks or llms-full.txt are written
+   */
+  private keepsMarkdown(): boolean {
+    return this.config.chunks.enabled || this.config.llmsTxt.enabled;
+  }
+
+  /**
+   * Processes the URL of a job and records the outcome in the queue
+   * @param {JobQueue} jobs Queue the job belongs to
+   * @param {Job} job Job to process
+   * @returns {Promise<string[] | null>} Links found on the page, or null if it was skipped or failed
+   */
+  private async processJob(jobs: JobQueue, job: Job): Promise<string[] | null> {
+    const startedAt = Date.now();
+    const outcome = await this.processUrl(job.url);
+
+    this.reporter?.add({
+      url: job.url,
+      status: outcome.status,
+      httpStatus: outcome.page ? outcome.page.status : outcome.httpStatus ?? null,
+      finalUrl: outcome.page?.finalUrl ?? null,
+      outputPath: outcome.filePath ?? null,
+      bytes: outcome.page ? outcome.page.bytes : null,
+      charset: outcome.page?.charset ?? null,
+      wordCount: outcome.wordCount ?? null,
+      durationMs: Date.now() - startedAt,
+      retries: outcome.page ? outcome.page.retries : outcome.retries ?? 0,
+      error: outcome.error ?? null
+    });
+
+    switch (outcome.status) {
+      case 'failed':
+        jobs.mark(job.url, 'failed', outcome.error);
+        return null;
+      case 'skipped':
+        jobs.mark(job.url, 'skipped', outcome.error);
+        return null;
+      default:
+        jobs.mark(job.url, 'done', undefined, outcome.filePath
+          ? { outputPath: outcome.filePath, ...this.pageSummaries.get(job.url), contentHash: outcome.contentHash }
+          : undefined);
+        return outcome.links;
+    }
+  }
+
+  /**
+   * Process queued URLs with the worker pool, within the per-host limits
+   * @param {JobQueue} jobs Queue of URLs to process
+   */
+  private async processUrls(jobs: JobQueue): Promise<void> {
+    let completed = jobs.finished;
+    const total = jobs.size;
+
+    const take = (accepts: (url: string) => boolean): Job | null => jobs.next(1, job => accepts(job.url))[0] || null;
+
+    await this.scheduler.run(take, job => job.url, async job => {
+      await this.processJob(jobs, job);
+
+      completed++;
+      const percentage = Math.round((completed / total) * 100);
+      console.log(`Progress: ${completed}/${total} (${percentage}%)`);
+    });
+  }
+
+  /**
+   * Describes the configured URL source, to tell runs apart in the state file
+   * @returns {string} Source description
+   */
+  private describeSource(): string {
+    const urlSource = this.config.urlSource;
+    switch (urlSource.type) {
+      case 'sitemap':
+        return `sitemap:${urlSource.sitemap}`;
+      case 'feed':
+        return `feed:${urlSource.feed}`;
+      case 'crawl':
+        return `crawl:${urlSource.seeds.join(',')}`;
+      case 'directory':
+        return `directory:${urlSource.directory}`;
+      default:
+        return `file:${urlSource.file}`;
+    }
+  }
+
+  /**
+   * Loads the queue of the previous run for --resume / --retry-failed, or builds a new one
+   * @returns {Promise<JobQueue | null>} Queue to process, or null if there is nothing to do
+   */
+  private async prepareJobs(): Promise<JobQueue | null> {
+    const { state, urlSource } = this.config;
+    const statePath = path.join(this.config.outputDir, state.file);
+    const source = this.describeSource();
+
+    if (state.resume || state.retryFailed) {
+      const jobs = await JobQueue.load(statePath, source);
+      if (jobs) {
+        const retried = state.retryFailed ? jobs.resetFailed() : 0;
+        const counts = jobs.counts();
+        // The feed is read again for the metadata and content of its entries
+        if (urlSource.type === 'feed' && urlSource.feed) {
+          await this.getFeedUrls(urlSource.feed);
+        }
+        console.log(`♻️ Resuming previous run: ${counts.done} done, ${counts.skipped} skipped, ${counts.failed} failed, ${counts.pending} pending${state.retryFailed ? ` (${retried} failed URLs to retry)` : ''}`);
+
+        // Pages converted before the interruption still take part in link rewriting, chunks and llms.txt
+        for (const url of jobs.urls('done')) {
+          // Variants of these URLs found from now on are merged into them
+          this.normalizer.resolve(url);
+          if (!this.localSource) this.normalizer.claim(url);
+          // State files written before the output was recorded only have it in the manifest
+          const entry = this.manifest?.get(url);
+          const output = jobs.get(url)?.output || entry;
+          if (output) {
+            this.savedPages.set(url, output.outputPath);
+            this.pageSummaries.set(url, { title: output.title, description: output.description });
+          }
+          // The manifest may be older than the interrupted run, its Markdown is only used if it is for the same content
+          if (entry?.markdown !== undefined && output?.contentHash === entry.contentHash) {
+            this.pageMarkdown.set(url, entry.markdown);
+          }
+        }
+        return jobs;
+      }
+      console.log('ℹ️ Starting a new run');
+    }
+
+    const jobs = JobQueue.create(statePath, source);
+
+    // Crawl mode discovers URLs while processing them
+    if (urlSource.type === 'crawl') {
+      if (urlSource.seeds.length === 0) {
+        console.warn('⚠️ No seed URLs configured for crawl');
+        return null;
+      }
+      Crawler.addSeeds(jobs, urlSource.seeds.map(seed => this.normalizer.resolve(seed)));
+      return jobs;
+    }
+
+    // Get URLs from configured source
+    const urls = await this.getUrls();
+
+    if (urls.length === 0) {
+      console.warn('⚠️ No URLs found in file');
+      return null;
+    }
+
+    // Variants of the same URL are queued once
+    urls.forEach(url => jobs.add(this.localSource ? url : this.normalizer.resolve(url)));
+    console.log(`📋 Found ${jobs.size} URLs to process`);
+    return jobs;
+  }
+
+  /**
+   * Lists the Markdown files of this run, once per file, ordered by output path
+   * @returns {SavedPage[]} Saved pages with their title and description
+   */
+  private getSavedPages(): SavedPage[] {
+    const pages = new Map<string, SavedPage>();
+
+    // A file can be registered under several URLs (redirects), the requested URL comes first
+    this.pageSummaries.forEach((summary, url) => {
+      const filePath = this.savedPages.get(url);
+      if (filePath && !pages.has(filePath) && fs.existsSync(filePath)) {
+        pages.set(filePath, { url, filePath, ...summary });
+      }
+    });
+
+    return Array.from(pages.values()).sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * Reads a saved Markdown file without its header
+   * @param {SavedPage} page Saved page
+   * @returns {Promise<string>} Markdown content
+   */
+  private async readMarkdown(page: SavedPage): Promise<string> {
+    return FrontMatter.strip(await fs.promises.readFile(page.filePath, 'utf-8'));
+  }
+
+  /**
+   * Gets the Markdown of a saved page before links between pages were rewritten.
+   * Files of pages converted by an interrupted run haven't been rewritten yet,
+   * so they are read when the Markdown wasn't kept.
+   * @param {SavedPage} page Saved page
+   * @returns {Promise<string>} Markdown content with absolute links
+   */
+  private async getMarkdown(page: SavedPage): Promise<string> {
+    return this.pageMarkdown.get(page.url) ?? this.readMarkdown(page);
+  }
+
+  /**
+   * Splits the saved pages into heading-aware chunks and writes them as JSONL,
+   * one record per chunk
+   * @param {SavedPage[]} pages Saved pages
+   */
+  private async writeChunks(pages: SavedPage[]): Promise<void> {
+    if (!this.config.chunks.enabled || pages.length === 0) return;
+
+    const chunksPath = path.join(this.config.outputDir, this.config.chunks.file);
+    const file = await fs.promises.open(chunksPath, 'w');
+    let count = 0;
+
+    try {
+      for (const page of pages) {
+        const markdown = await this.getMarkdown(page);
+        const lines = Chunker.split(markdown, this.config.chunks).map((chunk, chunkIndex) => JSON.stringify({
+          url: page.url,
+          title: page.title ?? null,
+          chunkIndex,
+          headings: chunk.headings,
+          text: chunk.text,
+          tokens: chunk.tokens
+        }) + '\n');
+
+        await file.write(lines.join(''));
+        count += lines.length;
+      }
+    } finally {
+      await file.close();
+    }
+
+    console.log(`🧩 Wrote ${count} chunks to ${chunksPath}`);
+  }
+
+  /**
+   * Writes the llms.txt index and the llms-full.txt bundle of the saved pages
+   * @param {SavedPage[]} pages Saved pages
+   */
+  private async writeLlmsTxt(pages: SavedPage[]): Promise<void> {
+    if (!this.config.llmsTxt.enabled || pages.length === 0) return;
+
+    const llmsPages = [];
+    for (const page of pages) {
+      llmsPages.push({ ...page, markdown: await this.getMarkdown(page) });
+    }
+
+    const outputDir = this.config.outputDir;
+    await fs.promises.writeFile(path.join(outputDir, 'llms.txt'), LlmsTxt.buildIndex(llmsPages, this.config.llmsTxt, outputDir), 'utf-8');
+    await fs.promises.writeFile(path.join(outputDir, 'llms-full.txt'), LlmsTxt.buildFull(llmsPages), 'utf-8');
+    console.log(`📚 Wrote llms.txt and llms-full.txt for ${pages.length} pages`);
+  }
+
+  /**
+   * Rewrites links between converted pages to relative Markdown paths
+   */
+  private async rewriteInternalLinks(): Promise<void> {
+    if (!this.config.fileOptions.rewriteInternalLinks || this.savedPages.size === 0) return;
+
+    console.log('🔗 Rewriting links between converted pages');
+    const changed = await new LinkRewriter(this.savedPages, url => this.normalizer.normalize(url)).rewriteAll();
+    console.log(`🔗 Rewrote internal links in ${changed} files`);
+  }
+
+  /**
+   * Prints the URLs that were skipped during the run and why
+   */
+  private reportSkippedUrls(): void {
+    if (this.skippedUrls.length === 0) return;
+
+    console.log(`⏭️ Skipped ${this.skippedUrls.length} URLs:`);
+    this.skippedUrls.forEach(({ url, reason }) => console.log(`  - ${url} (${reason})`));
+  }
+
+  /**
+   * Builds the report of the run, prints the totals and writes the report files
+   */
+  private async writeReport(): Promise<void> {
+    if (!this.reporter) return;
+    this.report = this.reporter.build();
+
+    const { totals, durationMs } = this.report;
+    console.log(`📊 Summary: ${totals.urls} URLs in ${(durationMs / 1000).toFixed(1)}s: ${totals.saved} saved, ${totals.unchanged} unchanged, ${totals.skipped} skipped, ${totals.failed} failed`);
+    if (!this.config.report.enabled) return;
+
+    try {
+      const written = await RunReporter.write(this.report, this.config);
+      console.log(`🧾 Run report written to ${written.join(' and ')}`);
+    } catch (error: any) {
+      console.error(`❌ Error writing run report: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { JSDOM } from 'jsdom';
+import { Config } from './config';
+import { Job, JobQueue } from './jobQueue';
+import { Scheduler } from './scheduler';
+
+/**
+ * Callback that processes a single page, records its state in the queue
+ * and returns the links on it (or null on failure)
+ */
+export type PageVisitor = (job: Job) => Promise<string[] | null>;
+
+/**
+ * File extensions that never point to HTML pages and are not worth fetching
+ */
+const SKIPPED_EXTENSIONS = [
+  '.pdf', '.zip', '.gz', '.tar', '.rar', '.7z', '.exe', '.dmg',
+  '.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp', '.ico', '.bmp',
+  '.mp3', '.mp4', '.avi', '.mov', '.webm', '.wav', '.ogg',
+  '.css', '.js', '.json', '.xml', '.rss', '.woff', '.woff2', '.ttf',
+  '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx'
+];
+
+/**
+ * Breadth-first crawler that follows <a href> links from seed URLs
+ */
+export class Crawler {
+  /**
+   * Constructor
+   * @param jobs Queue holding the crawl frontier (may come from a resumed run)
+   * @param visit Callback that converts a page and returns its links
+   * @param config Configuration with the crawl limits and scope
+   * @param scheduler Worker pool with the per-host limits of the run
+   */
+  constructor(
+    private jobs: JobQueue,
+    private visit: PageVisitor,
+    private config: Config,
+    private scheduler: Scheduler = new Scheduler(config)
+  ) {}
+
+  /**
+   * Queue the seed URLs at depth 0
+   * @param jobs Queue of a new crawl
+   * @param seeds Seed URLs to start crawling from
+   */
+  public static addSeeds(jobs: JobQueue, seeds: string[]): void {
+    for (const seed of seeds) {
+      const url = Crawler.normalizeLink(seed);
+      if (url) {
+        jobs.add(url, 0, url);
+      }
+    }
+  }
+
+  /**
+   * Run the crawl until the queue is empty or a limit is reached
+   * @returns Number of URLs visited, including those of a resumed run
+   */
+  public async run(): Promise<number> {
+    const { maxDepth, maxPages } = this.config.crawl;
+    let visited = this.jobs.finished;
+
+    console.log(`🕷️ Crawling with ${this.jobs.counts().pending} queued URL(s) (max depth ${maxDepth}, max pages ${maxPages}, scope: ${this.config.crawl.scope})`);
+
+    const take = (accepts: (url: string) => boolean): Job | null => {
+      if (visited >= maxPages) return null;
+      const [job] = this.jobs.next(1, job => accepts(job.url));
+      if (!job) return null;
+      visited++;
+      return job;
+    };
+
+    await this.scheduler.run(take, job => job.url, async job => {
+      const links = await this.visit(job);
+      const depth = job.depth || 0;
+
+      if (links && depth < maxDepth) {
+        const seed = new URL(job.seed || job.url);
+        for (const link of links) {
+          if (this.jobs.has(link) || !this.isInScope(link, seed)) continue;
+          this.jobs.add(link, depth + 1, seed.toString());
+        }
+      }
+
+      console.log(`Crawl progress: ${this.jobs.finished} visited, ${this.jobs.counts().pending} queued`);
+    });
+
+    const queued = this.jobs.counts().pending;
+    if (queued > 0) {
+      console.log(`ℹ️ Page limit of ${maxPages} reached, ${queued} queued URLs were not visited`);
+    }
+
+    return visited;
+  }
+
+  /**
+   * Extract all followable links from an HTML page
+   * @param html HTML content
+   * @param pageUrl URL of the page (for resolving relative links)
+   * @returns Absolute, normalized link URLs
+   */
+  public static extractLinks(html: string, pageUrl: string): string[] {
+    try {
+      const dom = new JSDOM(html, { url: pageUrl });
+      const document = dom.window.document;
+
+      // Respect <base href> when resolving relative links
+      const base = document.querySelector('base[href]')?.getAttribute('href');
+      const baseUrl = base ? new URL(base, pageUrl).toString() : pageUrl;
+
+      const links = new Set<string>();
+      document.querySelectorAll('a[href]').forEach(anchor => {
+        const rel = (anchor.getAttribute('rel') || '').toLowerCase();
+        if (rel.split(/\s+/).includes('nofollow')) return;
+
+        const link = Crawler.normalizeLink(anchor.getAttribute('href')!, baseUrl);
+        if (link) links.add(link);
+      });
+
+      return Array.from(links);
+    } catch (error: any) {
+      console.error(`Error extracting links from ${pageUrl}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a link and strip parts that don't identify a page
+   * @param href Link as found in the page
+   * @param baseUrl URL to resolve relative links against
+   * @returns Normalized URL, or null if the link should not be followed
+   */
+  private static normalizeLink(href: string, baseUrl?: string): string | null {
+    try {
+      const url = new URL(href.trim(), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+      url.hash = '';
+      const pathname = url.pathname.toLowerCase();
+      if (SKIPPED_EXTENSIONS.some(ext => pathname.endsWith(ext))) return null;
+
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a link falls within the configured crawl scope
+   * @param link Absolute link URL
+   * @param seed Seed URL the link was (transitively) discovered from
+   * @returns True if the link should be crawled
+   */
+  private isInScope(link: string, seed: URL): boolean {
+    const url = new URL(link);
+
+    switch (this.config.crawl.scope) {
+      case 'hosts':
+        return this.config.crawl.allowedHosts.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+      case 'path': {
+        // Treat the seed path as a folder unless it looks like a file (/docs/index.html)
+        const lastSegment = seed.pathname.substring(seed.pathname.lastIndexOf('/') + 1);
+        const prefix = lastSegment.includes('.')
+          ? seed.pathname.substring(0, seed.pathname.length - lastSegment.length)
+          : seed.pathname.replace(/\/?$/, '/');
+        return url.hostname === seed.hostname && (url.pathname + '/').startsWith(prefix);
+      }
+      case 'host':
+      default:
+        return url.hostname === seed.hostname;
+    }
+  }
+}
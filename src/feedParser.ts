@@ -0,0 +1,135 @@
+import * as xml2js from 'xml2js';
+import { Config, DEFAULT_CONFIG } from './config';
+import { Scheduler } from './scheduler';
+import { RetryPolicy } from './retryPolicy';
+import { SitemapParser } from './sitemapParser';
+
+/**
+ * An article listed in an RSS or Atom feed
+ */
+export interface FeedEntry {
+  url: string;
+  title: string | null;
+  // ISO date the entry was published (or last updated, if that is all the feed has)
+  published: string | null;
+  author: string | null;
+  // Full HTML body (RSS content:encoded or Atom content), null when the feed only has summaries
+  content: string | null;
+}
+
+/**
+ * Class for reading RSS 2.0 and Atom feeds
+ */
+export class FeedParser {
+  /**
+   * Fetch a feed and read its entries
+   * @param feedUrl URL of the feed
+   * @param config Configuration with the user agent and timeout
+   * @param scheduler Per-host rate limit for fetching the feed
+   * @param retryPolicy Retries of failed feed requests
+   * @returns Entries in feed order
+   */
+  public static async parseFromUrl(feedUrl: string, config: Config = DEFAULT_CONFIG, scheduler = new Scheduler(config), retryPolicy = new RetryPolicy(config)): Promise<FeedEntry[]> {
+    console.log(`📰 Fetching feed from: ${feedUrl}`);
+    const content = await SitemapParser.fetchXml(feedUrl, config, scheduler, retryPolicy, 'feed');
+    const entries = await this.parse(content, feedUrl);
+    console.log(`📄 Found ${entries.length} entries in feed`);
+    return entries;
+  }
+
+  /**
+   * Read the entries of an RSS or Atom document
+   * @param content XML content
+   * @param baseUrl URL of the feed, for resolving relative links
+   * @returns Entries with a link, in feed order
+   */
+  public static async parse(content: string, baseUrl: string): Promise<FeedEntry[]> {
+    const parser = new xml2js.Parser({ explicitArray: false });
+    const result = await parser.parseStringPromise(content);
+
+    let entries: FeedEntry[];
+    if (result?.rss) {
+      entries = this.list(result.rss.channel?.item).map(item => this.rssEntry(item, baseUrl));
+    } else if (result?.feed) {
+      entries = this.list(result.feed.entry).map(entry => this.atomEntry(entry, baseUrl));
+    } else {
+      throw new Error('not an RSS or Atom feed');
+    }
+    return entries.filter(entry => entry.url);
+  }
+
+  /**
+   * Read an RSS 2.0 <item>
+   * @param item Parsed item
+   * @param baseUrl URL of the feed
+   * @returns Entry, with an empty URL if the item has no link
+   */
+  private static rssEntry(item: any, baseUrl: string): FeedEntry {
+    // A permalink <guid> stands in for a missing <link>
+    const guid = item.guid && item.guid.$?.isPermaLink !== 'false' ? SitemapParser.text(item.guid) : '';
+    return {
+      url: this.resolve(SitemapParser.text(item.link) || guid, baseUrl),
+      title: SitemapParser.text(item.title) || null,
+      published: this.date(SitemapParser.text(item.pubDate) || SitemapParser.text(item['dc:date'])),
+      author: SitemapParser.text(item['dc:creator']) || SitemapParser.text(item.author) || null,
+      content: SitemapParser.text(item['content:encoded']) || null
+    };
+  }
+
+  /**
+   * Read an Atom <entry>
+   * @param entry Parsed entry
+   * @param baseUrl URL of the feed
+   * @returns Entry, with an empty URL if the entry has no link
+   */
+  private static atomEntry(entry: any, baseUrl: string): FeedEntry {
+    const links = this.list(entry.link);
+    const link = links.find(candidate => !candidate.$?.rel || candidate.$.rel === 'alternate') || links[0];
+    const authors = this.list(entry.author).map(author => SitemapParser.text(author.name)).filter(Boolean);
+    // type="xhtml" content is parsed into elements and can't be used as HTML, the page is fetched instead
+    const content = entry.content && entry.content.$?.type !== 'xhtml' ? SitemapParser.text(entry.content) : '';
+
+    return {
+      url: this.resolve(link?.$?.href || '', baseUrl),
+      title: SitemapParser.text(entry.title) || null,
+      published: this.date(SitemapParser.text(entry.published) || SitemapParser.text(entry.updated)),
+      author: authors.join(', ') || null,
+      content: content || null
+    };
+  }
+
+  /**
+   * Resolve an entry link against the feed URL
+   * @param link Link as written in the feed
+   * @param baseUrl URL of the feed
+   * @returns Absolute URL, or an empty string if the link is missing or invalid
+   */
+  private static resolve(link: string, baseUrl: string): string {
+    if (!link) return '';
+    try {
+      return new URL(link, baseUrl).toString();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Convert an RSS (RFC 822) or Atom (RFC 3339) date to ISO format
+   * @param value Date as written in the feed
+   * @returns ISO date, or null if it is missing or invalid
+   */
+  private static date(value: string): string | null {
+    const time = value ? new Date(value).getTime() : NaN;
+    return isNaN(time) ? null : new Date(time).toISOString();
+  }
+
+  /**
+   * Parsed elements that may appear once or several times, as an array
+   * @param value Parsed element, array of elements or undefined
+   * @returns Array of elements
+   */
+  private static list(value: any): any[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+}
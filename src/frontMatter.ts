@@ -0,0 +1,150 @@
+import { Config } from './config';
+
+/**
+ * Values available to the front matter template as {{placeholders}}
+ */
+export interface PageMetadata {
+  url: string;
+  title?: string | null;
+  canonical?: string | null;
+  description?: string | null;
+  language?: string | null;
+  fetchedAt?: string | null;
+  lastModified?: string | null;
+  // Character encoding the page was decoded with
+  charset?: string | null;
+  // Publication date and author, from the feed that listed the page
+  published?: string | null;
+  author?: string | null;
+}
+
+/**
+ * Front matter fields used when fileOptions.frontMatterTemplate is empty
+ */
+const DEFAULT_TEMPLATE: Record<string, string> = {
+  title: '{{title}}',
+  source: '{{url}}',
+  canonical: '{{canonical}}',
+  description: '{{description}}',
+  language: '{{language}}',
+  fetched: '{{fetchedAt}}',
+  lastModified: '{{lastModified}}',
+  published: '{{published}}',
+  author: '{{author}}'
+};
+
+/**
+ * Builds the header written at the top of each Markdown file
+ */
+export class FrontMatter {
+  /**
+   * Build the file header in the configured format
+   * @param metadata Page metadata
+   * @param fileOptions File options with the header format and template
+   * @returns Header text including trailing blank line, or an empty string
+   */
+  public static build(metadata: PageMetadata, fileOptions: Config['fileOptions']): string {
+    switch (fileOptions.headerFormat) {
+      case 'yaml':
+        return this.buildFrontMatter(metadata, fileOptions, '---', (key, value) => `${key}: ${JSON.stringify(value)}`);
+      case 'toml':
+        return this.buildFrontMatter(metadata, fileOptions, '+++', (key, value) => `${this.tomlKey(key)} = ${JSON.stringify(value)}`);
+      case 'comment':
+      default:
+        return this.buildComments(metadata, fileOptions);
+    }
+  }
+
+  /**
+   * Remove the header written by build() from the start of a Markdown file
+   * @param content File content
+   * @returns Markdown content without the header
+   */
+  public static strip(content: string): string {
+    const frontMatter = content.match(/^(---|\+\+\+)\n[\s\S]*?\n\1\n+/);
+    if (frontMatter) {
+      return content.substring(frontMatter[0].length);
+    }
+    return content.replace(/^(?:<!--.*?-->\n+)+/, '');
+  }
+
+  /**
+   * Build the HTML comment header used by earlier versions
+   * @param metadata Page metadata
+   * @param fileOptions File options
+   * @returns Comment lines
+   */
+  private static buildComments(metadata: PageMetadata, fileOptions: Config['fileOptions']): string {
+    let header = '';
+
+    if (fileOptions.addSourceUrl) {
+      header += `<!-- Source: ${metadata.url} -->\n\n`;
+    }
+
+    if (fileOptions.addDate && metadata.fetchedAt) {
+      header += `<!-- Generated: ${metadata.fetchedAt} -->\n\n`;
+    }
+
+    return header;
+  }
+
+  /**
+   * Render the front matter template between delimiters
+   * @param metadata Page metadata
+   * @param fileOptions File options
+   * @param delimiter Block delimiter (--- for YAML, +++ for TOML)
+   * @param formatLine Formats a single key/value line
+   * @returns Front matter block, or an empty string if no field has a value
+   */
+  private static buildFrontMatter(
+    metadata: PageMetadata,
+    fileOptions: Config['fileOptions'],
+    delimiter: string,
+    formatLine: (key: string, value: string) => string
+  ): string {
+    const lines: string[] = [];
+    const fields = Object.keys(fileOptions.frontMatterTemplate).length > 0
+      ? fileOptions.frontMatterTemplate
+      : DEFAULT_TEMPLATE;
+
+    for (const [key, template] of Object.entries(fields)) {
+      const value = this.render(template, metadata, fileOptions);
+      // Fields whose placeholders are all empty are left out
+      if (value) {
+        lines.push(formatLine(key, value));
+      }
+    }
+
+    if (lines.length === 0) return '';
+    return `${delimiter}\n${lines.join('\n')}\n${delimiter}\n\n`;
+  }
+
+  /**
+   * Replace {{placeholders}} in a template with metadata values
+   * @param template Template string
+   * @param metadata Page metadata
+   * @param fileOptions File options
+   * @returns Rendered value, trimmed
+   */
+  private static render(template: string, metadata: PageMetadata, fileOptions: Config['fileOptions']): string {
+    const values: Record<string, string | null | undefined> = {
+      ...metadata,
+      // addSourceUrl and addDate still switch these fields off
+      url: fileOptions.addSourceUrl ? metadata.url : null,
+      fetchedAt: fileOptions.addDate ? metadata.fetchedAt : null
+    };
+
+    return template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => values[name] || '')
+      .trim();
+  }
+
+  /**
+   * Quote a TOML key if it isn't a valid bare key
+   * @param key Key name
+   * @returns Key usable in TOML
+   */
+  private static tomlKey(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+  }
+}
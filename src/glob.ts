@@ -0,0 +1,39 @@
+/**
+ * Convert a glob pattern to a regular expression matching the whole string.
+ * Supports `*` and `?` (not crossing `/`), `**` (crossing `/`, with `**\/`
+ * also matching no folder at all) and `{a,b}` alternatives.
+ * @param pattern Glob pattern
+ * @returns Anchored, case-insensitive regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // **/ matches any number of folders, including none
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.substring(i + 1, end).split(',');
+        source += `(?:${options.map(option => option.replace(/[.+^${}()|[\]\\*?]/g, '\\$&')).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -1,5 +1,18 @@
 import { JSDOM } from 'jsdom';
-import config from './config';
+import { Config } from './config';
+import { PageMetadata } from './frontMatter';
+import { CodeBlocks } from './codeBlocks';
+
+/**
+ * Class and id patterns that suggest an element holds (or doesn't hold) the main content
+ */
+const POSITIVE_HINTS = /article|body|content|entry|main|page|post|text|blog|story|prose|markdown/i;
+const NEGATIVE_HINTS = /comment|footer|footnote|masthead|nav|menu|sidebar|related|share|social|sponsor|promo|banner|cookie|consent|widget|breadcrumb|pagination|subscribe|newsletter|popup|modal|(?:^|[\s_-])ads?(?=$|[\s_-])/i;
+
+/**
+ * Elements whose text is scored as a paragraph of content
+ */
+const PARAGRAPH_TAGS = ['P', 'PRE', 'TD', 'BLOCKQUOTE', 'LI', 'DD'];
 
 /**
  * Class for preprocessing HTML before conversion to Markdown
@@ -8,20 +21,28 @@ export class HtmlProcessor {
   /**
    * Process HTML content according to configuration
    * @param html HTML content
+   * @param config Configuration with the selector rules
    * @param pageUrl The original page URL (for resolving relative media paths)
+   * @param resolveRelative Also resolve relative links and media paths against pageUrl
    * @returns Processed HTML
    */
-  public static process(html: string, pageUrl?: string): string {
+  public static process(html: string, config: Config, pageUrl?: string, resolveRelative = false): string {
     try {
       const dom = new JSDOM(html);
       const document = dom.window.document;
       
+      // Read code block languages and drop line numbers while the highlighter classes are still there
+      CodeBlocks.prepare(document);
+      
       // Apply selectors from config
-      this.applySelectors(document);
+      this.applySelectors(document, config);
       
       // Absolutize media URLs if pageUrl is provided
       if (pageUrl) {
         this.absolutizeMediaUrls(document, pageUrl);
+        if (resolveRelative) {
+          this.resolveRelativeUrls(document, pageUrl);
+        }
       }
       
       return document.documentElement.outerHTML;
@@ -41,6 +62,8 @@ export class HtmlProcessor {
     } catch {
       return;
     }
+    // file:// pages (local files without a base URL) have no origin to prepend
+    if (origin === 'null') return;
     // List of media tags and their src attributes
     const mediaTags = [
       { tag: 'img', attr: 'src' },
@@ -91,32 +114,67 @@ export class HtmlProcessor {
     }
   }
 
+  /**
+   * Resolve relative link and media URLs against the page URL
+   * @param document DOM document
+   * @param pageUrl The page URL
+   */
+  private static resolveRelativeUrls(document: Document, pageUrl: string): void {
+    const attributes = [
+      { selector: 'a[href]', attr: 'href' },
+      { selector: 'img[src], audio[src], video[src], source[src]', attr: 'src' },
+      { selector: 'video[poster]', attr: 'poster' }
+    ];
+    for (const { selector, attr } of attributes) {
+      document.querySelectorAll(selector).forEach(element => {
+        const value = element.getAttribute(attr)!.trim();
+        // Fragments and scheme URLs (mailto:, https:) are left alone
+        if (!value || value.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(value)) return;
+        try {
+          element.setAttribute(attr, new URL(value, pageUrl).toString());
+        } catch {
+          // Keep values that aren't valid URLs
+        }
+      });
+    }
+  }
+
   /**
    * Apply selector rules from configuration
    * @param document DOM document
+   * @param config Configuration with the selector rules
    */
-  private static applySelectors(document: Document): void {
+  private static applySelectors(document: Document, config: Config): void {
     // Process exclude selectors - remove elements from DOM
-    this.processExcludeSelectors(document);
+    this.processExcludeSelectors(document, config.selectors.exclude);
+    
+    // Keep only the elements matching include selectors, which makes content scoring unnecessary
+    const included = this.processIncludeSelectors(document, config.selectors.include);
+    
+    // Keep only the main content block if configured
+    if (config.selectors.extractMainContent && !included) {
+      this.extractMainContent(document, config.selectors.minContentScore);
+    }
     
     // Process unwrap selectors - keep content but remove container
-    this.processUnwrapSelectors(document);
+    this.processUnwrapSelectors(document, config.selectors.unwrap);
     
     // Remove attributes if configured
     if (config.selectors.removeAttributes) {
-      this.removeAttributes(document);
+      this.removeAttributes(document, config.selectors.keepAttributes);
     }
   }
 
   /**
    * Remove elements matching exclude selectors
    * @param document DOM document
+   * @param exclude Selectors of the elements to remove
    */
-  private static processExcludeSelectors(document: Document): void {
-    if (!config.selectors.exclude || !config.selectors.exclude.length) return;
+  private static processExcludeSelectors(document: Document, exclude: string[]): void {
+    if (!exclude || !exclude.length) return;
     
     // Create combined selector for all exclusions
-    const selector = config.selectors.exclude.join(', ');
+    const selector = exclude.join(', ');
     
     try {
       const elements = document.querySelectorAll(selector);
@@ -130,15 +188,202 @@ export class HtmlProcessor {
     }
   }
 
+  /**
+   * Replace the body with the elements matching include selectors, in document order
+   * @param document DOM document
+   * @param include Selectors of the elements to keep
+   * @returns True if any element matched
+   */
+  private static processIncludeSelectors(document: Document, include: string[]): boolean {
+    const body = document.body;
+    if (!include || !include.length || !body) return false;
+    
+    try {
+      const matches = Array.from(document.querySelectorAll(include.join(', ')));
+      // Elements inside another match are kept as part of it
+      const kept = matches.filter(element => !matches.some(other => other !== element && other.contains(element)));
+      if (kept.length === 0) {
+        console.log(`ℹ️ No element matched the include selectors, keeping full body`);
+        return false;
+      }
+      
+      while (body.firstChild) {
+        body.removeChild(body.firstChild);
+      }
+      kept.forEach(element => body.appendChild(element));
+      return true;
+    } catch (error: any) {
+      console.error(`Error processing include selectors: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the body with its highest scoring content block. Blocks are scored
+   * by the paragraphs they contain, their link density and semantic hints, in
+   * the spirit of Readability. Falls back to the full body when no block
+   * scores above minContentScore.
+   * @param document DOM document
+   * @param minContentScore Minimum score of the main content block
+   */
+  private static extractMainContent(document: Document, minContentScore: number): void {
+    const body = document.body;
+    if (!body) return;
+    
+    try {
+      // Scripts and styles never carry content and would skew text lengths
+      body.querySelectorAll('script, style, noscript, template').forEach(element => element.remove());
+      
+      const scores = new Map<Element, number>();
+      const addScore = (element: Element, score: number) => {
+        if (!scores.has(element)) {
+          scores.set(element, this.getBaseScore(element));
+        }
+        scores.set(element, scores.get(element)! + score);
+      };
+      
+      // Give each paragraph's score to its parent and, reduced, to its ancestors
+      body.querySelectorAll(PARAGRAPH_TAGS.join(', ')).forEach(paragraph => {
+        const text = this.getInnerText(paragraph);
+        if (text.length < 25) return;
+        
+        const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+        let ancestor = paragraph.parentElement;
+        for (let level = 0; ancestor && level < 3; level++) {
+          addScore(ancestor, level === 0 ? score : score / (level * 2));
+          if (ancestor === body) break;
+          ancestor = ancestor.parentElement;
+        }
+      });
+      
+      // Semantic containers are candidates even without scored paragraphs
+      body.querySelectorAll('main, article, [role="main"]').forEach(element => addScore(element, 0));
+      
+      // Scale by link density and pick the best candidate
+      let candidate: Element | null = null;
+      let bestScore = 0;
+      for (const [element, score] of Array.from(scores.entries())) {
+        const finalScore = score * (1 - this.getLinkDensity(element));
+        scores.set(element, finalScore);
+        if (finalScore > bestScore) {
+          candidate = element;
+          bestScore = finalScore;
+        }
+      }
+      
+      if (!candidate || candidate === body || bestScore < minContentScore) {
+        console.log(`ℹ️ No main content block scored above ${minContentScore}, keeping full body`);
+        return;
+      }
+      
+      // Siblings that score nearly as well are usually part of the same article
+      const siblingThreshold = Math.max(10, bestScore * 0.2);
+      const kept: Element[] = [];
+      const parent = candidate.parentElement;
+      const siblings = parent ? Array.from(parent.children) : [candidate];
+      for (const sibling of siblings) {
+        if (sibling === candidate || (scores.get(sibling) || 0) >= siblingThreshold) {
+          kept.push(sibling);
+        } else if (sibling.tagName === 'P') {
+          const text = this.getInnerText(sibling);
+          if (text.length > 80 && this.getLinkDensity(sibling) < 0.25) {
+            kept.push(sibling);
+          }
+        }
+      }
+      
+      while (body.firstChild) {
+        body.removeChild(body.firstChild);
+      }
+      kept.forEach(element => body.appendChild(element));
+    } catch (error: any) {
+      console.error(`Error extracting main content: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Initial score of a content candidate based on its tag, role, class and id
+   * @param element Candidate element
+   * @returns Base score
+   */
+  private static getBaseScore(element: Element): number {
+    let score = 0;
+    
+    switch (element.tagName) {
+      case 'MAIN':
+      case 'ARTICLE':
+        score += 25;
+        break;
+      case 'SECTION':
+      case 'DIV':
+        score += 5;
+        break;
+      case 'PRE':
+      case 'TD':
+      case 'BLOCKQUOTE':
+        score += 3;
+        break;
+      case 'FORM':
+      case 'OL':
+      case 'UL':
+      case 'DL':
+      case 'ASIDE':
+        score -= 3;
+        break;
+      case 'NAV':
+      case 'FOOTER':
+      case 'HEADER':
+        score -= 25;
+        break;
+    }
+    
+    if (element.getAttribute('role') === 'main') {
+      score += 25;
+    }
+    
+    const hints = `${element.className} ${element.id}`;
+    if (NEGATIVE_HINTS.test(hints)) score -= 25;
+    if (POSITIVE_HINTS.test(hints)) score += 25;
+    
+    return score;
+  }
+  
+  /**
+   * Share of an element's text that sits inside links
+   * @param element Element to measure
+   * @returns Link density between 0 and 1
+   */
+  private static getLinkDensity(element: Element): number {
+    const textLength = this.getInnerText(element).length;
+    if (textLength === 0) return 0;
+    
+    let linkLength = 0;
+    element.querySelectorAll('a').forEach(anchor => {
+      linkLength += this.getInnerText(anchor).length;
+    });
+    
+    return Math.min(linkLength / textLength, 1);
+  }
+  
+  /**
+   * Text content of an element with whitespace collapsed
+   * @param element Element to read
+   * @returns Normalized text
+   */
+  private static getInnerText(element: Element): string {
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Unwrap elements matching unwrap selectors (keep contents)
    * @param document DOM document
+   * @param unwrap Selectors of the elements to unwrap
    */
-  private static processUnwrapSelectors(document: Document): void {
-    if (!config.selectors.unwrap || !config.selectors.unwrap.length) return;
+  private static processUnwrapSelectors(document: Document, unwrap: string[]): void {
+    if (!unwrap || !unwrap.length) return;
     
     // Create combined selector for all unwraps
-    const selector = config.selectors.unwrap.join(', ');
+    const selector = unwrap.join(', ');
     
     try {
       const elements = document.querySelectorAll(selector);
@@ -160,15 +405,23 @@ export class HtmlProcessor {
   /**
    * Remove most attributes from elements except important ones
    * @param document DOM document
+   * @param keepAttributes Names of the attributes to keep
    */
-  private static removeAttributes(document: Document): void {
+  private static removeAttributes(document: Document, keepAttributes: string[]): void {
     try {
       const elements = document.querySelectorAll('*');
-      const keepAttributes = ['href', 'src', 'alt', 'title'];
-      
+
       elements.forEach(element => {
+        // Keep cell alignment set through CSS
+        if ((element.tagName === 'TH' || element.tagName === 'TD') && !element.getAttribute('align')) {
+          const align = (element.getAttribute('style') || '').match(/text-align\s*:\s*(left|center|right)/i);
+          if (align) element.setAttribute('align', align[1].toLowerCase());
+        }
+
         const attributes = Array.from(element.attributes);
         attributes.forEach(attr => {
+          // Keep the code block language found by CodeBlocks.prepare()
+          if (element.tagName === 'PRE' && attr.name === 'data-lang') return;
           if (!keepAttributes.includes(attr.name)) {
             element.removeAttribute(attr.name);
           }
@@ -179,6 +432,46 @@ export class HtmlProcessor {
     }
   }
 
+  /**
+   * Extract front matter metadata (title, canonical URL, description, language) from an HTML document
+   * @param html HTML content
+   * @param pageUrl The page URL (for resolving a relative canonical link)
+   * @returns Metadata found in the document
+   */
+  public static extractMetadata(html: string, pageUrl: string): PageMetadata {
+    const metadata: PageMetadata = { url: pageUrl, title: this.extractPageTitle(html) };
+    
+    try {
+      const dom = new JSDOM(html);
+      const document = dom.window.document;
+      
+      const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+      if (canonical) {
+        try {
+          metadata.canonical = new URL(canonical.trim(), pageUrl).toString();
+        } catch {
+          metadata.canonical = canonical.trim();
+        }
+      }
+      
+      const description = document.querySelector('meta[name="description"]')?.getAttribute('content')
+        || document.querySelector('meta[property="og:description"]')?.getAttribute('content');
+      if (description) {
+        metadata.description = description.replace(/\s+/g, ' ').trim();
+      }
+      
+      const language = document.documentElement.getAttribute('lang')
+        || document.querySelector('meta[http-equiv="content-language" i]')?.getAttribute('content');
+      if (language) {
+        metadata.language = language.trim();
+      }
+    } catch (error: any) {
+      console.error(`Error extracting page metadata: ${error.message}`);
+    }
+    
+    return metadata;
+  }
+
   /**
    * Extract the page title from an HTML document
    * @param html HTML content
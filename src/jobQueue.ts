@@ -0,0 +1,338 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as fsExtra from 'fs-extra';
+
+/**
+ * State of a URL in the run
+ */
+export type JobState = 'pending' | 'done' | 'failed' | 'skipped';
+
+/**
+ * Markdown file a page was saved to, with its title and description
+ */
+export interface JobOutput {
+  outputPath: string;
+  title?: string | null;
+  description?: string | null;
+  // Manifest content hash, to tell whether the manifest entry describes this version of the page
+  contentHash?: string;
+}
+
+/**
+ * A URL to process and what happened to it
+ */
+export interface Job {
+  url: string;
+  state: JobState;
+  // Failure or skip reason
+  error?: string;
+  attempts: number;
+  // Crawl only: link depth and the seed the URL was discovered from
+  depth?: number;
+  seed?: string;
+  // Done only: where the page was saved, so a resumed run still lists it in its outputs
+  output?: JobOutput;
+}
+
+/**
+ * State file contents
+ */
+interface JobQueueData {
+  version: number;
+  source: string;
+  updatedAt: string;
+  jobs: Job[];
+}
+
+const STATE_VERSION = 1;
+
+// Minimum time between state file writes while the run is going
+const SAVE_INTERVAL = 1000;
+
+/**
+ * Persistent queue of URLs and their state, saved as the run goes so an
+ * interrupted run can be resumed
+ */
+export class JobQueue {
+  private jobs: Job[] = [];
+  private index = new Map<string, Job>();
+  private running = new Set<string>();
+  private cursor = 0;
+  // Jobs per state, kept up to date on every change so counting doesn't scan the queue
+  private stateCounts: Record<JobState, number> = { pending: 0, done: 0, failed: 0, skipped: 0 };
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Last write of the state file; writes are chained so they never overlap on the temporary file
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructor
+   * @param statePath Path of the state file, or null for a queue that is only kept in memory
+   * @param source Description of the URL source, to detect resuming a different run
+   */
+  private constructor(private statePath: string | null, public readonly source: string) {}
+
+  /**
+   * Start a new queue, replacing any earlier state
+   * @param statePath Path of the state file, or null to keep the queue in memory
+   * @param source Description of the URL source
+   * @returns Empty queue
+   */
+  public static create(statePath: string | null, source: string): JobQueue {
+    if (statePath && fs.existsSync(statePath)) {
+      console.log(`ℹ️ Replacing the state of the previous run (use --resume to continue it)`);
+    }
+    return new JobQueue(statePath, source);
+  }
+
+  /**
+   * Load the queue of an earlier run
+   * @param statePath Path of the state file
+   * @param source Description of the URL source of this run
+   * @returns Loaded queue, or null if there is no usable state
+   */
+  public static async load(statePath: string, source: string): Promise<JobQueue | null> {
+    if (!fs.existsSync(statePath)) {
+      console.warn(`⚠️ No previous run state found at ${statePath}`);
+      return null;
+    }
+
+    try {
+      const data: JobQueueData = JSON.parse(await fs.promises.readFile(statePath, 'utf-8'));
+      if (data.version !== STATE_VERSION) {
+        console.warn(`⚠️ Run state at ${statePath} has an unsupported format`);
+        return null;
+      }
+      if (data.source !== source) {
+        console.warn(`⚠️ The previous run used a different URL source (${data.source}), resuming it anyway`);
+      }
+
+      const queue = new JobQueue(statePath, data.source);
+      data.jobs.forEach(job => queue.insert(job));
+      return queue;
+    } catch (error: any) {
+      console.error(`❌ Error loading run state ${statePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Add a URL as pending unless it is already known
+   * @param url URL to add
+   * @param depth Crawl depth
+   * @param seed Crawl seed the URL was discovered from
+   * @returns True if the URL was added
+   */
+  public add(url: string, depth?: number, seed?: string): boolean {
+    if (this.index.has(url)) return false;
+    this.insert({ url, state: 'pending', attempts: 0, depth, seed });
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Check whether a URL is already in the queue, in any state
+   * @param url URL to check
+   * @returns True if known
+   */
+  public has(url: string): boolean {
+    return this.index.has(url);
+  }
+
+  /**
+   * Take up to `count` pending jobs that aren't being processed yet, in queue order
+   * @param count Maximum number of jobs
+   * @param accept Only take jobs this returns true for (e.g. hosts with free capacity)
+   * @returns Jobs to process
+   */
+  public next(count: number, accept?: (job: Job) => boolean): Job[] {
+    const jobs: Job[] = [];
+
+    // Everything before the cursor is finished, so the scan doesn't restart from zero
+    while (this.cursor < this.jobs.length && this.jobs[this.cursor].state !== 'pending') {
+      this.cursor++;
+    }
+
+    for (let i = this.cursor; i < this.jobs.length && jobs.length < count; i++) {
+      const job = this.jobs[i];
+      if (job.state === 'pending' && !this.running.has(job.url) && (!accept || accept(job))) {
+        this.running.add(job.url);
+        jobs.push(job);
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Get the job of a URL
+   * @param url URL of the job
+   * @returns Job, or undefined if the URL isn't queued
+   */
+  public get(url: string): Job | undefined {
+    return this.index.get(url);
+  }
+
+  /**
+   * Record the outcome of a job
+   * @param url URL of the job
+   * @param state New state
+   * @param error Failure or skip reason
+   * @param output File the page was saved to, for done jobs
+   */
+  public mark(url: string, state: JobState, error?: string, output?: JobOutput): void {
+    const job = this.index.get(url);
+    if (!job) return;
+
+    this.running.delete(url);
+    this.stateCounts[job.state]--;
+    this.stateCounts[state]++;
+    job.state = state;
+    job.attempts++;
+    if (error) {
+      job.error = error;
+    } else {
+      delete job.error;
+    }
+    if (output) {
+      job.output = output;
+    } else {
+      delete job.output;
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Put failed jobs back to pending, for --retry-failed
+   * @returns Number of jobs that will be retried
+   */
+  public resetFailed(): number {
+    let count = 0;
+    for (const job of this.jobs) {
+      if (job.state === 'failed') {
+        job.state = 'pending';
+        count++;
+      }
+    }
+    this.stateCounts.failed -= count;
+    this.stateCounts.pending += count;
+    this.cursor = 0;
+    this.scheduleSave();
+    return count;
+  }
+
+  /**
+   * URLs of the jobs in a state
+   * @param state State to list
+   * @returns URLs in queue order
+   */
+  public urls(state: JobState): string[] {
+    return this.jobs.filter(job => job.state === state).map(job => job.url);
+  }
+
+  /**
+   * Count jobs per state
+   * @returns Counts keyed by state
+   */
+  public counts(): Record<JobState, number> {
+    return { ...this.stateCounts };
+  }
+
+  /**
+   * Number of jobs that have been processed (done, failed or skipped)
+   */
+  public get finished(): number {
+    return this.jobs.length - this.stateCounts.pending;
+  }
+
+  /**
+   * Total number of jobs
+   */
+  public get size(): number {
+    return this.jobs.length;
+  }
+
+  /**
+   * Write the state file now, after any write that is still in progress
+   */
+  public save(): Promise<void> {
+    this.clearTimer();
+    const statePath = this.statePath;
+    if (!statePath) return Promise.resolve();
+    this.saving = this.saving.then(() => this.write(statePath));
+    return this.saving;
+  }
+
+  /**
+   * Write the state file synchronously, for use while the process is exiting
+   */
+  public saveSync(): void {
+    this.clearTimer();
+    if (!this.statePath) return;
+    try {
+      fsExtra.ensureDirSync(path.dirname(this.statePath));
+      fs.writeFileSync(this.statePath, this.serialize(), 'utf-8');
+    } catch (error: any) {
+      console.error(`❌ Error saving run state ${this.statePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write the state file through a temporary file, so a crash doesn't leave it half written
+   * @param statePath Path of the state file
+   */
+  private async write(statePath: string): Promise<void> {
+    try {
+      await fsExtra.ensureDir(path.dirname(statePath));
+      const tempPath = `${statePath}.tmp`;
+      await fs.promises.writeFile(tempPath, this.serialize(), 'utf-8');
+      await fs.promises.rename(tempPath, statePath);
+    } catch (error: any) {
+      console.error(`❌ Error saving run state ${statePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Add a job to the list and the index
+   * @param job Job to add
+   */
+  private insert(job: Job): void {
+    this.jobs.push(job);
+    this.index.set(job.url, job);
+    this.stateCounts[job.state]++;
+  }
+
+  /**
+   * Save soon, batching the state changes of the next SAVE_INTERVAL
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer || !this.statePath) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_INTERVAL);
+  }
+
+  /**
+   * Cancel a scheduled save
+   */
+  private clearTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  /**
+   * Serialize the queue for the state file
+   * @returns JSON text
+   */
+  private serialize(): string {
+    const data: JobQueueData = {
+      version: STATE_VERSION,
+      source: this.source,
+      updatedAt: new Date().toISOString(),
+      jobs: this.jobs
+    };
+    return JSON.stringify(data, null, 2);
+  }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Inline Markdown links and images: [text](url "title") / ![alt](url). The url
+ * may hold escaped parentheses, as Turndown writes them, or balanced ones.
+ */
+const INLINE_LINK = /(!?)\[((?:[^\[\]\\]|\\.|\[[^\]]*\])*)\]\(\s*<?((?:[^()\s<>\\]|\\.|\([^()\s]*\))+)>?((?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*)\)/g;
+
+/**
+ * Inline code spans: a run of backticks up to the next run of the same length
+ */
+const CODE_SPAN = /(`+)(?!`).*?[^`]\1(?!`)/g;
+
+/**
+ * Reference link definitions: [id]: url "title"
+ */
+const REFERENCE_DEFINITION = /^(\s{0,3}\[[^\]]+\]:\s*)<?([^\s>]+)>?(.*)$/;
+
+/**
+ * Rewrites links between converted pages to relative Markdown paths
+ */
+export class LinkRewriter {
+  private files = new Map<string, string>();
+
+  /**
+   * Constructor
+   * @param pages Map of converted page URL to the Markdown file it was saved to
+   * @param normalize Cleans URLs before they are matched, e.g. removing tracking parameters
+   */
+  constructor(private pages: Map<string, string>, private normalize: (url: string) => string = url => url) {
+    pages.forEach((filePath, url) => {
+      const key = LinkRewriter.urlKey(normalize(url));
+      if (key) this.files.set(key, filePath);
+    });
+  }
+
+  /**
+   * Rewrite links in every converted file
+   * @returns Number of files that were changed
+   */
+  public async rewriteAll(): Promise<number> {
+    let changed = 0;
+
+    // A file can be registered under several URLs (redirects), rewrite it once
+    const files = new Map<string, string>();
+    this.pages.forEach((filePath, url) => {
+      if (!files.has(filePath)) files.set(filePath, url);
+    });
+
+    for (const [filePath, url] of Array.from(files.entries())) {
+      try {
+        const markdown = await fs.promises.readFile(filePath, 'utf-8');
+        const rewritten = this.rewrite(markdown, url, filePath);
+        if (rewritten !== markdown) {
+          await fs.promises.writeFile(filePath, rewritten, 'utf-8');
+          changed++;
+        }
+      } catch (error: any) {
+        console.error(`❌ Error rewriting links in ${filePath}: ${error.message}`);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Rewrite the links in one Markdown document
+   * @param markdown Markdown content
+   * @param pageUrl URL the document was converted from (for resolving relative links)
+   * @param filePath Path of the document (links are made relative to it)
+   * @returns Markdown with internal links rewritten
+   */
+  public rewrite(markdown: string, pageUrl: string, filePath: string): string {
+    let fence: string | null = null;
+
+    return markdown.split('\n').map(line => {
+      // Leave code blocks untouched
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+          fence = null;
+        }
+        return line;
+      }
+      if (fence) return line;
+
+      const definition = line.match(REFERENCE_DEFINITION);
+      if (definition) {
+        return definition[1] + this.resolveTarget(definition[2], pageUrl, filePath) + definition[3];
+      }
+
+      // Code spans are set aside so links shown as code stay as written, links around them are still rewritten
+      const spans: string[] = [];
+      const masked = line.replace(CODE_SPAN, span => `\u0000${spans.push(span) - 1}\u0000`);
+
+      return masked.replace(INLINE_LINK, (match, bang: string, text: string, target: string, title: string) => {
+        // Images are never converted pages
+        if (bang || target.includes('\u0000')) return match;
+        const unescaped = target.replace(/\\([()])/g, '$1');
+        const resolved = this.resolveTarget(unescaped, pageUrl, filePath);
+        // Escaped again, so parentheses in the URL can't end the link
+        return `[${text}](${resolved === unescaped ? target : resolved.replace(/[()]/g, '\\$&')}${title})`;
+      }).replace(/\u0000(\d+)\u0000/g, (_match, index: string) => spans[Number(index)]);
+    }).join('\n');
+  }
+
+  /**
+   * Map a link target to a relative .md path if it points to a converted page
+   * @param target Link target as written in the Markdown
+   * @param pageUrl URL of the page containing the link
+   * @param filePath Path of the file containing the link
+   * @returns Relative path with fragment, or the absolute URL
+   */
+  private resolveTarget(target: string, pageUrl: string, filePath: string): string {
+    if (target.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(target)) {
+      return target;
+    }
+
+    // Links rewritten by an earlier run already point at a local file
+    if (!/^[a-z][a-z0-9+.-]*:|^\//i.test(target) && LinkRewriter.isLocalFile(target, filePath)) {
+      return target;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(target, pageUrl);
+    } catch {
+      return target;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return target;
+    }
+
+    const targetFile = this.files.get(LinkRewriter.urlKey(this.normalize(url.toString())) || '');
+    if (!targetFile) {
+      // Pages that weren't converted keep an absolute link
+      return url.toString();
+    }
+
+    if (path.resolve(targetFile) === path.resolve(filePath)) {
+      return url.hash || path.basename(filePath);
+    }
+
+    const relative = path.relative(path.dirname(filePath), targetFile).split(path.sep).join('/');
+    return encodeURI(relative).replace(/\(/g, '%28').replace(/\)/g, '%29') + url.hash;
+  }
+
+  /**
+   * Check whether a relative link points at an existing file
+   * @param target Relative link target
+   * @param filePath Path of the file containing the link
+   * @returns True if the target exists on disk
+   */
+  private static isLocalFile(target: string, filePath: string): boolean {
+    try {
+      const targetPath = decodeURI(target.split('#')[0]);
+      return targetPath.endsWith('.md') && fs.existsSync(path.resolve(path.dirname(filePath), targetPath));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Key used to match link URLs against converted page URLs. Ignores the
+   * fragment, a leading www., a trailing slash and default ports.
+   * @param url Absolute URL
+   * @returns Lookup key, or null for invalid URLs
+   */
+  public static urlKey(url: string): string | null {
+    try {
+      const urlObj = new URL(url);
+      urlObj.hash = '';
+      const host = urlObj.host.replace(/^www\./, '');
+      const pathname = urlObj.pathname.length > 1 ? urlObj.pathname.replace(/\/+$/, '') : urlObj.pathname;
+      return `${host}${pathname}${urlObj.search}`;
+    } catch {
+      return null;
+    }
+  }
+}
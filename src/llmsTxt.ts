@@ -0,0 +1,148 @@
+import * as path from 'path';
+import { Config } from './config';
+
+/**
+ * A converted page as listed in llms.txt
+ */
+export interface LlmsPage {
+  url: string;
+  title?: string | null;
+  // Meta description, the first paragraph is used when it is empty
+  description?: string | null;
+  // Markdown file the page was saved to
+  filePath: string;
+  // Markdown content without the file header
+  markdown: string;
+}
+
+/**
+ * Longest description written to llms.txt, in characters
+ */
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Builds the llms.txt index and the llms-full.txt bundle of a converted site
+ * (see https://llmstxt.org)
+ */
+export class LlmsTxt {
+  /**
+   * Build llms.txt: a title, a summary and the pages grouped by URL section,
+   * each linked to its Markdown file
+   * @param pages Converted pages, in output path order
+   * @param options llms.txt options
+   * @param outputDir Output directory, links are relative to it
+   * @returns llms.txt content
+   */
+  public static buildIndex(pages: LlmsPage[], options: Config['llmsTxt'], outputDir: string): string {
+    const hosts = new Set(pages.map(page => new URL(page.url).host));
+    const title = options.title || Array.from(hosts).join(', ');
+    const lines = [`# ${title}`, ''];
+
+    if (options.summary) {
+      lines.push(`> ${options.summary}`, '');
+    }
+
+    // Pages of several sites are grouped per site as well, pages below the root come first
+    const sections = new Map<string, LlmsPage[]>();
+    const ordered = pages
+      .map(page => ({ page, host: new URL(page.url).host, section: this.getSection(page.url) }))
+      .sort((a, b) => a.host.localeCompare(b.host) || Number(a.section !== null) - Number(b.section !== null));
+
+    for (const { page, host, section } of ordered) {
+      const name = hosts.size > 1 ? `${host}${section ? ` - ${section}` : ''}` : section || 'Pages';
+      if (!sections.has(name)) sections.set(name, []);
+      sections.get(name)!.push(page);
+    }
+
+    sections.forEach((sectionPages, section) => {
+      lines.push(`## ${section}`, '');
+      for (const page of sectionPages) {
+        const link = path.relative(outputDir, page.filePath).split(path.sep).map(encodeURIComponent).join('/');
+        const description = this.getDescription(page);
+        lines.push(`- [${this.escape(this.getTitle(page))}](${link})${description ? `: ${description}` : ''}`);
+      }
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Build llms-full.txt: the Markdown of every page, each introduced by its
+   * title and source URL and separated by a horizontal rule
+   * @param pages Converted pages, in output path order
+   * @returns llms-full.txt content
+   */
+  public static buildFull(pages: LlmsPage[]): string {
+    return pages
+      .map(page => `# ${this.getTitle(page)}\n\nSource: ${page.url}\n\n${page.markdown.trim()}\n`)
+      .join('\n---\n\n');
+  }
+
+  /**
+   * Section of a page: the first segment of its URL path
+   * @param url Page URL
+   * @returns Section name, or null for pages directly below the root
+   */
+  private static getSection(url: string): string | null {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return segments.length > 1 ? decodeURIComponent(segments[0]) : null;
+  }
+
+  /**
+   * Title of a page, falling back to the last URL path segment
+   * @param page Converted page
+   * @returns Title
+   */
+  private static getTitle(page: LlmsPage): string {
+    if (page.title) return page.title.trim();
+    const segments = new URL(page.url).pathname.split('/').filter(Boolean);
+    return segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : new URL(page.url).host;
+  }
+
+  /**
+   * Short description of a page: the meta description or the first paragraph,
+   * as one line of plain text
+   * @param page Converted page
+   * @returns Description, or an empty string
+   */
+  private static getDescription(page: LlmsPage): string {
+    const text = (page.description || this.getFirstParagraph(page.markdown, page.title)).replace(/\s+/g, ' ').trim();
+    if (text.length <= MAX_DESCRIPTION_LENGTH) return text;
+
+    const cut = text.lastIndexOf(' ', MAX_DESCRIPTION_LENGTH - 1);
+    return `${text.substring(0, cut > 0 ? cut : MAX_DESCRIPTION_LENGTH - 1)}…`;
+  }
+
+  /**
+   * First paragraph of prose in a Markdown document, with link syntax removed
+   * @param markdown Markdown content
+   * @param title Page title, skipped when the document repeats it as text
+   * @returns Paragraph text, or an empty string
+   */
+  private static getFirstParagraph(markdown: string, title?: string | null): string {
+    const paragraph = markdown
+      .split(/\n\s*\n/)
+      .map(block => block.trim())
+      // Skip headings, code, tables, quotes, lists, images, HTML and reference definitions
+      .find(block => block
+        && !/^(#|```|~~~|\||>|[-*+] |\d+\. |!\[|<|\[[^\]]+\]:)/.test(block)
+        && !/^.+\n(=+|-+)$/.test(block)
+        && block.replace(/\\(.)/g, '$1') !== title?.trim());
+
+    if (!paragraph) return '';
+    return paragraph
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+      .replace(/[*`]/g, '');
+  }
+
+  /**
+   * Escape the characters that would end a Markdown link text
+   * @param text Link text
+   * @returns Escaped text
+   */
+  private static escape(text: string): string {
+    return text.replace(/([\[\]\\])/g, '\\$1');
+  }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import sanitize from 'sanitize-filename';
+import { globToRegExp } from './glob';
+import { Charset } from './charset';
+
+/**
+ * HTML files in a local directory, addressed by URLs under a base URL
+ * so relative links between them resolve like on the live site
+ */
+export class LocalSource {
+  private base: URL;
+
+  /**
+   * Constructor
+   * @param root Directory holding the HTML files
+   * @param baseUrl URL the directory was published at, empty for file:// URLs
+   */
+  constructor(private root: string, baseUrl: string) {
+    const base = baseUrl || pathToFileURL(path.resolve(root)).toString();
+    this.base = new URL(base.endsWith('/') ? base : `${base}/`);
+  }
+
+  /**
+   * List the files under the root that match any of the glob patterns
+   * @param include Glob patterns relative to the root (supports *, **, ? and {a,b})
+   * @returns Page URLs of the matching files, sorted by path
+   */
+  public async listUrls(include: string[]): Promise<string[]> {
+    const patterns = include.map(pattern => globToRegExp(pattern));
+    const files = await this.walk(path.resolve(this.root), '');
+    return files
+      .filter(file => patterns.some(pattern => pattern.test(file)))
+      .sort()
+      .map(file => this.toUrl(file));
+  }
+
+  /**
+   * Read the file behind a page URL
+   * @param url Page URL returned by listUrls
+   * @returns HTML content, the encoding it was decoded with and the modification time
+   */
+  public async read(url: string): Promise<{ html: string; charset: string; modifiedAt: Date }> {
+    const filePath = path.join(this.root, ...this.toRelativePath(url).split('/'));
+    const [data, stats] = await Promise.all([
+      fs.promises.readFile(filePath),
+      fs.promises.stat(filePath)
+    ]);
+    const { text: html, charset } = Charset.decode(data);
+    return { html, charset, modifiedAt: stats.mtime };
+  }
+
+  /**
+   * Output path that mirrors the file's place in the input folder
+   * @param url Page URL returned by listUrls
+   * @param outputDir Output directory
+   * @returns Directory and Markdown file path
+   */
+  public getOutputPaths(url: string, outputDir: string): { dirPath: string; filePath: string } {
+    const parts = this.toRelativePath(url).split('/').map(part => sanitize(part) || '_');
+    const fileName = parts.pop()!.replace(/\.[^.]*$/, '') || 'index';
+    const dirPath = path.join(outputDir, ...parts);
+    return { dirPath, filePath: path.join(dirPath, `${fileName}.md`) };
+  }
+
+  /**
+   * Build the page URL of a file
+   * @param relativePath Path relative to the root, with / separators
+   * @returns Absolute URL under the base URL
+   */
+  private toUrl(relativePath: string): string {
+    const encoded = relativePath.split('/').map(part => encodeURIComponent(part)).join('/');
+    return new URL(encoded, this.base).toString();
+  }
+
+  /**
+   * Map a page URL back to the file path relative to the root
+   * @param url Page URL
+   * @returns Relative path with / separators
+   */
+  private toRelativePath(url: string): string {
+    const pathname = new URL(url).pathname;
+    if (!pathname.startsWith(this.base.pathname)) {
+      throw new Error(`${url} is not under the base URL ${this.base}`);
+    }
+    return pathname.substring(this.base.pathname.length).split('/').map(part => decodeURIComponent(part)).join('/');
+  }
+
+  /**
+   * List all files below a directory
+   * @param dir Absolute directory path
+   * @param prefix Path of the directory relative to the root
+   * @returns Relative file paths with / separators
+   */
+  private async walk(dir: string, prefix: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.walk(path.join(dir, entry.name), relativePath));
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+
+    return files;
+  }
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fsExtra from 'fs-extra';
+import { Config } from './config';
+
+/**
+ * What the last run knew about a converted URL
+ */
+export interface ManifestEntry {
+  url: string;
+  outputPath: string;
+  etag?: string;
+  lastModified?: string;
+  contentHash: string;
+  fetchedAt: string;
+  // Page title and description, for outputs written after the run such as chunks and llms.txt
+  title?: string | null;
+  description?: string | null;
+  // Links found on the page, so a crawl can continue past unchanged pages
+  links?: string[];
+  // Markdown before links were rewritten, so chunks and llms-full.txt keep absolute URLs for unchanged pages
+  markdown?: string;
+}
+
+/**
+ * Manifest file contents
+ */
+interface ManifestData {
+  version: number;
+  configHash: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * Run manifest that records HTTP validators and content hashes per URL
+ * so later runs can skip pages that haven't changed
+ */
+export class RunManifest {
+  private entries: Record<string, ManifestEntry> = {};
+  private dirty = false;
+
+  /**
+   * Constructor
+   * @param manifestPath Path of the manifest file
+   * @param configHash Fingerprint of the conversion settings of this run
+   */
+  private constructor(private manifestPath: string, private configHash: string) {}
+
+  /**
+   * Load the manifest from the output directory. Entries written with
+   * different conversion settings are discarded, since their output is stale.
+   * @param config Configuration of this run
+   * @returns Manifest (empty if none exists yet)
+   */
+  public static async load(config: Config): Promise<RunManifest> {
+    const manifestPath = path.join(config.outputDir, config.incremental.manifestFile);
+    const manifest = new RunManifest(manifestPath, this.hashConfig(config));
+
+    try {
+      if (fs.existsSync(manifestPath)) {
+        const data: ManifestData = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+        if (data.version !== MANIFEST_VERSION) {
+          console.log(`ℹ️ Manifest ${manifestPath} has an old format, starting fresh`);
+        } else if (data.configHash !== manifest.configHash) {
+          console.log(`ℹ️ Conversion settings changed since the last run, all pages will be rewritten`);
+        } else {
+          manifest.entries = data.entries || {};
+          console.log(`📒 Loaded manifest with ${Object.keys(manifest.entries).length} entries`);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ Error loading manifest ${manifestPath}: ${error.message}`);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Get the entry for a URL if its output file still exists
+   * @param url Page URL
+   * @returns Manifest entry or undefined
+   */
+  public get(url: string): ManifestEntry | undefined {
+    const entry = this.entries[url];
+    return entry && fs.existsSync(entry.outputPath) ? entry : undefined;
+  }
+
+  /**
+   * Record the entry for a URL
+   * @param entry Manifest entry
+   */
+  public set(entry: ManifestEntry): void {
+    this.entries[entry.url] = entry;
+    this.dirty = true;
+  }
+
+  /**
+   * Write the manifest to disk if anything changed
+   */
+  public async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    try {
+      await fsExtra.ensureDir(path.dirname(this.manifestPath));
+      await fs.promises.writeFile(this.manifestPath, this.serialize(), 'utf-8');
+      this.dirty = false;
+    } catch (error: any) {
+      console.error(`❌ Error saving manifest ${this.manifestPath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write the manifest synchronously, for use while the process is exiting
+   */
+  public saveSync(): void {
+    if (!this.dirty) return;
+
+    try {
+      fsExtra.ensureDirSync(path.dirname(this.manifestPath));
+      fs.writeFileSync(this.manifestPath, this.serialize(), 'utf-8');
+      this.dirty = false;
+    } catch (error: any) {
+      console.error(`❌ Error saving manifest ${this.manifestPath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Hash Markdown content for change detection
+   * @param content Markdown content
+   * @returns Hex digest
+   */
+  public static hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Serialize the manifest for writing
+   * @returns JSON text
+   */
+  private serialize(): string {
+    const data: ManifestData = { version: MANIFEST_VERSION, configHash: this.configHash, entries: this.entries };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Fingerprint of the settings that affect the generated Markdown
+   * @param config Configuration
+   * @returns Hex digest
+   */
+  private static hashConfig(config: Config): string {
+    const relevant = {
+      selectors: config.selectors,
+      turndownOptions: config.turndownOptions,
+      profiles: config.profiles,
+      fileOptions: config.fileOptions,
+      tables: config.tables,
+      assets: config.assets
+    };
+    return this.hashContent(JSON.stringify(relevant));
+  }
+}
@@ -0,0 +1,64 @@
+import { Config, SelectorProfile } from './config';
+import { globToRegExp } from './glob';
+
+/**
+ * Picks the selector profile for a URL and merges it over the global settings
+ */
+export class SelectorProfiles {
+  /**
+   * Find the first profile whose host and path globs match a URL
+   * @param profiles Configured profiles
+   * @param url Page URL
+   * @returns Matching profile, or null
+   */
+  public static match(profiles: SelectorProfile[], url: string): SelectorProfile | null {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      return null;
+    }
+
+    return profiles.find(profile =>
+      (!profile.host || globToRegExp(profile.host).test(urlObj.hostname)) &&
+      (!profile.path || globToRegExp(profile.path).test(decodeURIComponent(urlObj.pathname)))
+    ) || null;
+  }
+
+  /**
+   * Configuration for converting a URL: the global selectors and Turndown
+   * options with the fields of the matching profile merged over them
+   * @param config Configuration of the run
+   * @param url Page URL
+   * @returns Configuration to use and the name of the profile that matched
+   */
+  public static resolve(config: Config, url: string): { config: Config; profile: string | null } {
+    const profile = this.match(config.profiles, url);
+    if (!profile) return { config, profile: null };
+
+    return {
+      config: {
+        ...config,
+        selectors: this.mergeSelectors(config.selectors, profile.selectors || {}),
+        turndownOptions: { ...config.turndownOptions, ...profile.turndownOptions }
+      },
+      profile: profile.name
+    };
+  }
+
+  /**
+   * Merge the selectors of a profile over the global ones: selector and
+   * attribute lists are added to, without duplicates, other fields are replaced
+   * @param selectors Global selectors
+   * @param overrides Selectors of the profile
+   * @returns Merged selectors
+   */
+  private static mergeSelectors(selectors: Config['selectors'], overrides: Partial<Config['selectors']>): Config['selectors'] {
+    const merged: Record<string, unknown> = { ...selectors };
+    for (const [key, value] of Object.entries(overrides)) {
+      const current = merged[key];
+      merged[key] = Array.isArray(current) && Array.isArray(value) ? [...new Set([...current, ...value])] : value;
+    }
+    return merged as Config['selectors'];
+  }
+}
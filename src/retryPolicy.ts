@@ -0,0 +1,169 @@
+import { Config } from './config';
+
+/**
+ * Recent failures of one host
+ */
+interface CircuitState {
+  // Failed requests in a row
+  failures: number;
+  // Time until which requests fail without being sent, 0 when closed
+  openUntil: number;
+}
+
+/**
+ * Network error codes worth another attempt: timeouts, resets and refused or unreachable connections
+ */
+const RETRYABLE_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ERR_NETWORK'];
+
+/**
+ * Decides whether and when failed requests are retried, for pages, sitemaps
+ * and assets alike. Only failures that may go away are retried (timeouts,
+ * network errors, 5xx and the statuses in retry.retryStatuses), with
+ * exponential backoff or the delay the server asks for in Retry-After. A host
+ * that keeps failing gets its requests failed right away for a while.
+ */
+export class RetryPolicy {
+  private hosts = new Map<string, CircuitState>();
+
+  /**
+   * Constructor
+   * @param config Configuration with retryAttempts, retryDelay and the retry options
+   */
+  constructor(private config: Config) {}
+
+  /**
+   * Make a request, retrying it while the failure is worth retrying
+   * @param url URL requested, whose host the circuit breaker tracks
+   * @param request Makes one attempt and throws on failure
+   * @param label What is requested, for the log
+   * @returns Result of the successful attempt and the number of retries it took
+   * @throws The last error, with `retries` set to the number of retries made
+   */
+  public async execute<T>(url: string, request: () => Promise<T>, label = 'URL'): Promise<{ result: T; retries: number }> {
+    const host = this.getHost(url);
+
+    for (let retries = 0; ; retries++) {
+      if (host.openUntil > Date.now()) {
+        const error: any = new Error(`${this.hostOf(url)} failed ${host.failures} times in a row, not requesting it for ${Math.ceil((host.openUntil - Date.now()) / 1000)}s`);
+        error.retries = retries;
+        throw error;
+      }
+
+      try {
+        const result = await request();
+        host.failures = 0;
+        host.openUntil = 0;
+        return { result, retries };
+      } catch (error: any) {
+        const retryable = this.isRetryable(error);
+        if (retryable) {
+          this.recordFailure(url, host);
+        } else if (error.response) {
+          // The host answered, so it is up
+          host.failures = 0;
+        }
+
+        if (!retryable || retries >= this.config.retryAttempts || host.openUntil > Date.now()) {
+          error.retries = retries;
+          throw error;
+        }
+
+        const delay = this.getDelay(error, retries);
+        console.warn(`Error fetching ${label} ${url}, retrying in ${(delay / 1000).toFixed(1)}s (${retries + 1}/${this.config.retryAttempts}): ${error.message}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Check whether a failed request may succeed when tried again
+   * @param error Error thrown by the request
+   * @returns True for timeouts, network errors, 5xx and the configured retry statuses
+   */
+  public isRetryable(error: any): boolean {
+    const status: number | undefined = error?.response?.status;
+    if (status === undefined) {
+      return Boolean(error?.isAxiosError) && RETRYABLE_CODES.includes(error.code);
+    }
+    return status >= 500 || this.config.retry.retryStatuses.includes(status);
+  }
+
+  /**
+   * Delay before the next attempt: the server's Retry-After if it sent one,
+   * otherwise retryDelay growing by backoffFactor per attempt, with jitter
+   * @param error Error of the failed attempt
+   * @param retries Retries made so far
+   * @returns Delay in milliseconds
+   */
+  private getDelay(error: any, retries: number): number {
+    const { backoffFactor, maxDelay, jitter, respectRetryAfter, maxRetryAfter } = this.config.retry;
+
+    const retryAfter = respectRetryAfter ? this.parseRetryAfter(error?.response?.headers?.['retry-after']) : null;
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, maxRetryAfter);
+    }
+
+    const delay = Math.min(maxDelay, this.config.retryDelay * Math.pow(backoffFactor, retries));
+    // Randomize part of the delay so clients that failed together don't retry together
+    return Math.round(delay * (1 - Math.min(1, Math.max(0, jitter)) * Math.random()));
+  }
+
+  /**
+   * Read a Retry-After header: a number of seconds or an HTTP date
+   * @param value Header value
+   * @returns Delay in milliseconds, or null if there is no valid header
+   */
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' || !value.trim()) return null;
+
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+    const date = new Date(value).getTime();
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Count a failed request and open the host's circuit once retry.circuitBreakerThreshold is reached
+   * @param url URL that failed
+   * @param host State of its host
+   */
+  private recordFailure(url: string, host: CircuitState): void {
+    const { circuitBreakerThreshold, circuitBreakerCooldown } = this.config.retry;
+    host.failures++;
+
+    // After the cooldown the next request is a trial: one more failure opens the circuit again
+    if (circuitBreakerThreshold > 0 && host.failures >= circuitBreakerThreshold) {
+      host.openUntil = Date.now() + circuitBreakerCooldown;
+      console.warn(`🔌 ${this.hostOf(url)} failed ${host.failures} times in a row, pausing its requests for ${Math.round(circuitBreakerCooldown / 1000)}s`);
+    }
+  }
+
+  /**
+   * Get the circuit state of a URL's host
+   * @param url URL on the host
+   * @returns Host state
+   */
+  private getHost(url: string): CircuitState {
+    const key = this.hostOf(url);
+    let host = this.hosts.get(key);
+    if (!host) {
+      host = { failures: 0, openUntil: 0 };
+      this.hosts.set(key, host);
+    }
+    return host;
+  }
+
+  /**
+   * Host of a URL
+   * @param url URL
+   * @returns Host with port, or the URL itself if it can't be parsed
+   */
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
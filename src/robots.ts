@@ -0,0 +1,288 @@
+import axios from 'axios';
+import { Config } from './config';
+
+/**
+ * A single Allow or Disallow rule from robots.txt
+ */
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+/**
+ * A group of rules that applies to one or more user agents
+ */
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Result of checking a URL against robots.txt
+ */
+export interface RobotsVerdict {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Parsed robots.txt file
+ */
+export class RobotsTxt {
+  public readonly sitemaps: string[] = [];
+  private groups: RobotsGroup[] = [];
+
+  /**
+   * Constructor
+   * @param content Raw robots.txt content
+   * @param disallowAll Treat every path as disallowed (used when robots.txt is unreachable)
+   */
+  constructor(content: string, private disallowAll = false) {
+    this.parse(content);
+  }
+
+  /**
+   * Check whether a URL may be fetched by the given agent
+   * @param url Absolute URL
+   * @param agentToken Product token of our crawler
+   * @returns Verdict with the matching rule as reason when disallowed
+   */
+  public check(url: string, agentToken: string): RobotsVerdict {
+    if (this.disallowAll) {
+      return { allowed: false, reason: 'robots.txt could not be fetched' };
+    }
+
+    const group = this.findGroup(agentToken);
+    if (!group) return { allowed: true };
+
+    const urlObj = new URL(url);
+    const target = urlObj.pathname + urlObj.search;
+
+    // The most specific (longest) matching rule wins, Allow wins ties
+    let match: RobotsRule | null = null;
+    for (const rule of group.rules) {
+      if (!rule.pattern.test(target)) continue;
+      if (!match
+        || rule.path.length > match.path.length
+        || (rule.path.length === match.path.length && rule.allow && !match.allow)) {
+        match = rule;
+      }
+    }
+
+    if (match && !match.allow) {
+      return { allowed: false, reason: `robots.txt Disallow: ${match.path}` };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Get the Crawl-delay for the given agent
+   * @param agentToken Product token of our crawler
+   * @returns Delay in seconds, or 0 if none is set
+   */
+  public getCrawlDelay(agentToken: string): number {
+    return this.findGroup(agentToken)?.crawlDelay || 0;
+  }
+
+  /**
+   * Find the group that applies to an agent: the group naming its product token, or '*'
+   * @param agentToken Product token of our crawler
+   * @returns Matching group or null
+   */
+  private findGroup(agentToken: string): RobotsGroup | null {
+    // RFC 9309: the whole product token is matched, case-insensitively
+    const token = agentToken.toLowerCase();
+    return this.groups.find(group => group.agents.includes(token))
+      || this.groups.find(group => group.agents.includes('*'))
+      || null;
+  }
+
+  /**
+   * Parse robots.txt content into groups and sitemap references
+   * @param content Raw robots.txt content
+   */
+  private parse(content: string): void {
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+    const groupsByAgent = new Map<string, RobotsGroup>();
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent': {
+          // Only the product token counts, a version such as "/1.0" after it is ignored
+          const agent = (value.match(/^(?:\*|[a-z_-]+)/i)?.[0] || value).toLowerCase();
+          // Consecutive User-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = groupsByAgent.get(agent) || { agents: [], rules: [] };
+            if (!this.groups.includes(current)) this.groups.push(current);
+          }
+          if (!current.agents.includes(agent)) current.agents.push(agent);
+          groupsByAgent.set(agent, current);
+          lastWasAgent = true;
+          break;
+        }
+        case 'allow':
+        case 'disallow':
+          lastWasAgent = false;
+          // An empty Disallow means everything is allowed
+          if (current && value) {
+            current.rules.push({ allow: field === 'allow', path: value, pattern: RobotsTxt.toPattern(value) });
+          }
+          break;
+        case 'crawl-delay': {
+          lastWasAgent = false;
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+          break;
+        }
+        case 'sitemap':
+          if (value) this.sitemaps.push(value);
+          break;
+        default:
+          lastWasAgent = false;
+      }
+    }
+  }
+
+  /**
+   * Convert a robots.txt path pattern (with * and $) to a regular expression
+   * @param path Path pattern
+   * @returns Regular expression anchored at the start of the path
+   */
+  private static toPattern(path: string): RegExp {
+    const anchored = path.endsWith('$');
+    const body = (anchored ? path.slice(0, -1) : path)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+}
+
+/**
+ * Fetches, caches and applies robots.txt rules per origin
+ */
+export class RobotsManager {
+  private cache = new Map<string, Promise<RobotsTxt>>();
+  private nextSlot = new Map<string, number>();
+
+  /**
+   * Constructor
+   * @param config Configuration with the robots options, user agent and timeout
+   */
+  constructor(private config: Config) {}
+
+  /**
+   * Check whether a URL may be fetched according to its origin's robots.txt
+   * @param url URL to check
+   * @returns Verdict with a reason when the URL is disallowed
+   */
+  public async check(url: string): Promise<RobotsVerdict> {
+    if (!this.config.robots.respect) return { allowed: true };
+
+    try {
+      const robots = await this.getRobots(new URL(url).origin);
+      return robots.check(url, this.config.robots.agentToken);
+    } catch (error: any) {
+      return { allowed: false, reason: `invalid URL: ${error.message}` };
+    }
+  }
+
+  /**
+   * Wait until the origin's Crawl-delay allows another request
+   * @param url URL about to be fetched
+   */
+  public async waitForCrawlDelay(url: string): Promise<void> {
+    if (!this.config.robots.respect) return;
+
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return;
+    }
+
+    const robots = await this.getRobots(origin);
+    const delayMs = robots.getCrawlDelay(this.config.robots.agentToken) * 1000;
+    if (!delayMs) return;
+
+    // Reserve the next free slot for this origin so concurrent requests queue up
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(origin) || 0);
+    this.nextSlot.set(origin, slot + delayMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Get the sitemap URLs listed in an origin's robots.txt
+   * @param origin Origin such as https://example.com
+   * @returns Sitemap URLs (may be empty)
+   */
+  public async getSitemaps(origin: string): Promise<string[]> {
+    const robots = await this.getRobots(origin);
+    return robots.sitemaps;
+  }
+
+  /**
+   * Get the cached robots.txt for an origin, fetching it on first use
+   * @param origin Origin such as https://example.com
+   * @returns Parsed robots.txt
+   */
+  private getRobots(origin: string): Promise<RobotsTxt> {
+    let robots = this.cache.get(origin);
+    if (!robots) {
+      robots = this.fetchRobots(origin);
+      this.cache.set(origin, robots);
+    }
+    return robots;
+  }
+
+  /**
+   * Fetch and parse robots.txt for an origin
+   * @param origin Origin such as https://example.com
+   * @returns Parsed robots.txt
+   */
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await axios.get(robotsUrl, {
+        timeout: this.config.timeout,
+        responseType: 'text',
+        validateStatus: () => true,
+        headers: {
+          'User-Agent': this.config.userAgent,
+          'Accept': 'text/plain,*/*;q=0.8'
+        }
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        console.log(`🤖 Loaded robots.txt from ${robotsUrl}`);
+        return new RobotsTxt(String(response.data));
+      }
+
+      // A missing robots.txt means there are no restrictions
+      if (response.status >= 400 && response.status < 500) {
+        return new RobotsTxt('');
+      }
+
+      console.warn(`⚠️ robots.txt at ${robotsUrl} returned HTTP ${response.status}, treating origin as disallowed`);
+      return new RobotsTxt('', true);
+    } catch (error: any) {
+      console.warn(`⚠️ Could not fetch ${robotsUrl} (${error.message}), treating origin as disallowed`);
+      return new RobotsTxt('', true);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as fsExtra from 'fs-extra';
+import { Config } from './config';
+
+/**
+ * Outcome of one URL in a run
+ */
+export interface UrlReport {
+  url: string;
+  status: 'saved' | 'unchanged' | 'skipped' | 'failed';
+  // HTTP status of the last response, null when nothing was fetched
+  httpStatus: number | null;
+  // URL after redirects
+  finalUrl: string | null;
+  outputPath: string | null;
+  // Size of the fetched body
+  bytes: number | null;
+  // Character encoding the body was decoded from, null when nothing was decoded
+  charset: string | null;
+  // Words in the Markdown
+  wordCount: number | null;
+  durationMs: number;
+  // Attempts after the first one
+  retries: number;
+  // Failure or skip reason
+  error: string | null;
+}
+
+/**
+ * Report of a run: totals and the outcome of every URL processed
+ */
+export interface RunReport {
+  source: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  totals: Record<UrlReport['status'], number> & {
+    urls: number;
+    bytes: number;
+    words: number;
+    retries: number;
+  };
+  urls: UrlReport[];
+}
+
+/**
+ * Columns of the CSV report, in order
+ */
+const CSV_COLUMNS: (keyof UrlReport)[] = ['url', 'status', 'httpStatus', 'finalUrl', 'outputPath', 'bytes', 'charset', 'wordCount', 'durationMs', 'retries', 'error'];
+
+/**
+ * Collects the outcome of each URL during a run and writes the JSON and CSV reports
+ */
+export class RunReporter {
+  private startedAt = new Date();
+  private urls: UrlReport[] = [];
+
+  /**
+   * Constructor
+   * @param source Description of the URL source of the run
+   */
+  constructor(private source: string) {}
+
+  /**
+   * Record the outcome of a URL
+   * @param entry Outcome
+   */
+  public add(entry: UrlReport): void {
+    this.urls.push(entry);
+  }
+
+  /**
+   * Build the report of the URLs recorded so far
+   * @returns Report with totals
+   */
+  public build(): RunReport {
+    const finishedAt = new Date();
+    const totals: RunReport['totals'] = { urls: this.urls.length, saved: 0, unchanged: 0, skipped: 0, failed: 0, bytes: 0, words: 0, retries: 0 };
+
+    for (const entry of this.urls) {
+      totals[entry.status]++;
+      totals.bytes += entry.bytes || 0;
+      totals.words += entry.wordCount || 0;
+      totals.retries += entry.retries;
+    }
+
+    return {
+      source: this.source,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+      totals,
+      urls: this.urls
+    };
+  }
+
+  /**
+   * Write the report to the output directory as JSON, and as CSV if configured
+   * @param report Report to write
+   * @param config Configuration with the output directory and report file names
+   * @returns Paths of the files written
+   */
+  public static async write(report: RunReport, config: Config): Promise<string[]> {
+    await fsExtra.ensureDir(config.outputDir);
+
+    const jsonPath = path.join(config.outputDir, config.report.file);
+    await fs.promises.writeFile(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+    const written = [jsonPath];
+
+    if (config.report.csvFile) {
+      const csvPath = path.join(config.outputDir, config.report.csvFile);
+      await fs.promises.writeFile(csvPath, this.toCsv(report), 'utf-8');
+      written.push(csvPath);
+    }
+
+    return written;
+  }
+
+  /**
+   * Format the per-URL table as CSV (RFC 4180)
+   * @param report Report to format
+   * @returns CSV with a header row
+   */
+  public static toCsv(report: RunReport): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = report.urls.map(entry => CSV_COLUMNS.map(column => escape(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Count the words of a Markdown document
+   * @param markdown Markdown content
+   * @returns Number of whitespace-separated tokens with a letter or digit
+   */
+  public static countWords(markdown: string): number {
+    return markdown.split(/\s+/).filter(token => /[A-Za-z0-9\u00C0-\uFFFF]/.test(token)).length;
+  }
+}
@@ -0,0 +1,115 @@
+import { Config } from './config';
+
+/**
+ * Token bucket and work in progress of one host
+ */
+interface HostState {
+  // Requests that may start right away, negative when requests are waiting for tokens
+  tokens: number;
+  refilledAt: number;
+  // Pool items running for the host
+  active: number;
+}
+
+/**
+ * Runs work through a continuous worker pool and spaces requests per host,
+ * so a run over several sites goes fast without hammering any one origin
+ */
+export class Scheduler {
+  private hosts = new Map<string, HostState>();
+
+  /**
+   * Constructor
+   * @param config Configuration with maxConcurrent and the per-host rate limit
+   */
+  constructor(private config: Config) {}
+
+  /**
+   * Process items with up to maxConcurrent workers. A worker takes the next
+   * item as soon as it finishes one, and items of hosts that already have
+   * rateLimit.maxConcurrentPerHost items running are left for later.
+   * @param take Returns the next item whose URL passes the given check, or null if there is none right now
+   * @param urlOf URL of an item
+   * @param process Processes one item. Items it adds become available to take once it finishes.
+   * @returns Resolves when no item is running and take returns null
+   */
+  public run<T>(
+    take: (accepts: (url: string) => boolean) => T | null,
+    urlOf: (item: T) => string,
+    process: (item: T) => Promise<void>
+  ): Promise<void> {
+    const maxConcurrent = Math.max(1, this.config.maxConcurrent);
+    const maxPerHost = this.config.rateLimit.maxConcurrentPerHost;
+    const accepts = (url: string) => maxPerHost <= 0 || this.getHost(url).active < maxPerHost;
+    let running = 0;
+
+    return new Promise(resolve => {
+      const fill = () => {
+        while (running < maxConcurrent) {
+          // Hosts held by work outside this pool (a nested run) must not stall it
+          const item = take(accepts) ?? (running === 0 ? take(() => true) : null);
+          if (item === null) break;
+
+          const host = this.getHost(urlOf(item));
+          host.active++;
+          running++;
+
+          process(item)
+            .catch((error: any) => console.error(`❌ Error processing ${urlOf(item)}: ${error.message}`))
+            .then(() => {
+              host.active--;
+              running--;
+              fill();
+            });
+        }
+
+        // Nothing running and nothing to take means every item is done
+        if (running === 0) resolve();
+      };
+
+      fill();
+    });
+  }
+
+  /**
+   * Wait until the host's token bucket allows another request
+   * (rateLimit.requestsPerSecond, with bursts of up to that many requests)
+   * @param url URL about to be fetched
+   */
+  public async throttle(url: string): Promise<void> {
+    const rate = this.config.rateLimit.requestsPerSecond;
+    if (rate <= 0) return;
+
+    const host = this.getHost(url);
+    const now = Date.now();
+    host.tokens = Math.min(Math.max(1, rate), host.tokens + ((now - host.refilledAt) / 1000) * rate);
+    host.refilledAt = now;
+
+    // Take a token even if there is none yet, so concurrent callers queue up behind each other
+    host.tokens--;
+    if (host.tokens < 0) {
+      await new Promise(resolve => setTimeout(resolve, (-host.tokens / rate) * 1000));
+    }
+  }
+
+  /**
+   * Get the state of a URL's host, creating it with a full bucket on first use
+   * @param url URL on the host
+   * @returns Host state
+   */
+  private getHost(url: string): HostState {
+    let key: string;
+    try {
+      key = new URL(url).host;
+    } catch {
+      key = url;
+    }
+
+    let host = this.hosts.get(key);
+    if (!host) {
+      host = { tokens: Math.max(1, this.config.rateLimit.requestsPerSecond), refilledAt: Date.now(), active: 0 };
+      this.hosts.set(key, host);
+    }
+    return host;
+  }
+}
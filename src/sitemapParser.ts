@@ -1,49 +1,180 @@
+import * as zlib from 'zlib';
 import * as xml2js from 'xml2js';
 import axios from 'axios';
-import config from './config';
+import { Config, DEFAULT_CONFIG } from './config';
+import { RobotsManager } from './robots';
+import { Scheduler } from './scheduler';
+import { RetryPolicy } from './retryPolicy';
+
+/**
+ * A URL listed in a sitemap, with the optional metadata the sitemap gives for it
+ */
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  // Between 0.0 and 1.0
+  priority?: number;
+}
+
+/**
+ * Priority of entries that don't state one, as defined by the sitemap protocol
+ */
+const DEFAULT_PRIORITY = 0.5;
 
 /**
  * Class for parsing XML sitemaps
  */
 export class SitemapParser {
   /**
-   * Parse a sitemap URL and extract all URLs
+   * Parse a sitemap URL and extract all URL entries, following sitemap indexes
+   * and decompressing gzip sitemaps. Entries are filtered by config.sitemapFilter.
+   * @param sitemapUrl URL of the sitemap
+   * @param config Configuration with the user agent, timeout, concurrency and sitemap filter
+   * @param scheduler Worker pool and per-host rate limit for fetching sitemaps
+   * @param retryPolicy Retries of failed sitemap requests
+   * @returns Entries found in the sitemap
+   */
+  public static async parseFromUrl(sitemapUrl: string, config: Config = DEFAULT_CONFIG, scheduler = new Scheduler(config), retryPolicy = new RetryPolicy(config)): Promise<SitemapEntry[]> {
+    const entries = await this.fetchEntries(sitemapUrl, config, scheduler, retryPolicy, new Set<string>());
+    return this.applyFilter(entries, config.sitemapFilter);
+  }
+  
+  /**
+   * Fetch and parse one sitemap or sitemap index
    * @param sitemapUrl URL of the sitemap
-   * @returns Array of URLs found in the sitemap
+   * @param config Configuration with the user agent, timeout and concurrency
+   * @param scheduler Worker pool and per-host rate limit for fetching sitemaps
+   * @param retryPolicy Retries of failed sitemap requests
+   * @param visited Sitemap URLs already fetched in this parse, to stop indexes that loop back on themselves
+   * @returns Entries found in the sitemap
    */
-  public static async parseFromUrl(sitemapUrl: string): Promise<string[]> {
+  private static async fetchEntries(sitemapUrl: string, config: Config, scheduler: Scheduler, retryPolicy: RetryPolicy, visited: Set<string>): Promise<SitemapEntry[]> {
     try {
+      const key = new URL(sitemapUrl).toString();
+      if (visited.has(key)) {
+        console.warn(`⚠️ Skipping sitemap ${sitemapUrl}: already read (listed twice or a looping sitemap index)`);
+        return [];
+      }
+      visited.add(key);
+      
       console.log(`🔍 Fetching sitemap from: ${sitemapUrl}`);
+      const sitemapContent = await this.fetchXml(sitemapUrl, config, scheduler, retryPolicy, 'sitemap');
       
-      // Fetch the sitemap content
-      const response = await axios.get(sitemapUrl, {
+      // Parse the XML content
+      return await this.parseSitemapContent(sitemapContent, sitemapUrl, config, scheduler, retryPolicy, visited);
+    } catch (error: any) {
+      console.error(`Error parsing sitemap ${sitemapUrl}: ${error.message}`);
+      return [];
+    }
+  }
+  
+  /**
+   * Fetch an XML document (a sitemap or a feed) within the per-host rate limit, with retries
+   * @param url URL of the document
+   * @param config Configuration with the user agent and timeout
+   * @param scheduler Per-host rate limit
+   * @param retryPolicy Retries of failed requests
+   * @param label What is fetched, for the log
+   * @returns XML content, decompressed if it was gzipped
+   */
+  public static async fetchXml(url: string, config: Config, scheduler: Scheduler, retryPolicy: RetryPolicy, label: string): Promise<string> {
+    // Fetch the raw bytes, since .xml.gz sitemaps are gzip files rather than gzip-encoded responses
+    const { result: response } = await retryPolicy.execute(url, async () => {
+      await scheduler.throttle(url);
+      return axios.get(url, {
         timeout: config.timeout,
+        responseType: 'arraybuffer',
         headers: {
           'User-Agent': config.userAgent,
-          'Accept': 'application/xml,text/xml,application/xhtml+xml,text/html;q=0.9'
+          'Accept': 'application/xml,text/xml,application/rss+xml,application/atom+xml,application/x-gzip,application/gzip,application/xhtml+xml,text/html;q=0.9'
         }
       });
-      
-      if (response.status !== 200) {
-        throw new Error(`Failed to fetch sitemap: ${response.statusText}`);
-      }
-      
-      // Parse the XML content
-      const sitemapContent = response.data;
-      return await this.parseSitemapContent(sitemapContent, sitemapUrl);
-    } catch (error: any) {
-      console.error(`Error parsing sitemap ${sitemapUrl}: ${error.message}`);
-      return [];
+    }, label);
+    
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Failed to fetch ${label}: ${response.statusText}`);
     }
+    return this.decode(Buffer.from(response.data));
+  }
+  
+  /**
+   * Turn a sitemap response into text, decompressing it if it is gzipped
+   * @param data Response body
+   * @returns XML content
+   */
+  private static decode(data: Buffer): string {
+    // Gzip files start with the magic bytes 1f 8b, whatever the URL or Content-Type says
+    const xml = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b ? zlib.gunzipSync(data) : data;
+    return xml.toString('utf-8');
+  }
+  
+  /**
+   * Keep the entries that pass the sitemap filter. Entries without a lastmod
+   * are kept by modifiedSince, since the sitemap doesn't say when they changed.
+   * @param entries Sitemap entries
+   * @param filter Sitemap filter options
+   * @returns Entries that pass the filter
+   */
+  private static applyFilter(entries: SitemapEntry[], filter: Config['sitemapFilter']): SitemapEntry[] {
+    const since = filter.modifiedSince ? new Date(filter.modifiedSince).getTime() : NaN;
+    if (filter.modifiedSince && isNaN(since)) {
+      console.warn(`⚠️ Ignoring sitemapFilter.modifiedSince: "${filter.modifiedSince}" is not a valid date`);
+    }
+    if (isNaN(since) && filter.minPriority <= 0) return entries;
+    
+    const kept = entries.filter(entry => {
+      const lastmod = entry.lastmod ? new Date(entry.lastmod).getTime() : NaN;
+      if (!isNaN(since) && !isNaN(lastmod) && lastmod < since) return false;
+      return (entry.priority ?? DEFAULT_PRIORITY) >= filter.minPriority;
+    });
+    
+    const conditions = [
+      !isNaN(since) ? `modified since ${filter.modifiedSince}` : '',
+      filter.minPriority > 0 ? `priority ≥ ${filter.minPriority}` : ''
+    ].filter(Boolean).join(', ');
+    console.log(`🧹 Sitemap filter (${conditions}) kept ${kept.length} of ${entries.length} URLs`);
+    return kept;
+  }
+  
+  /**
+   * Resolve a sitemap source to sitemap URLs. A bare domain or site root is
+   * looked up through the Sitemap: lines in robots.txt, falling back to /sitemap.xml.
+   * @param source Sitemap URL, site root URL or bare domain
+   * @param robots robots.txt cache of the run
+   * @returns Sitemap URLs to parse
+   */
+  public static async resolveSitemapUrls(source: string, robots: RobotsManager): Promise<string[]> {
+    const target = /^https?:\/\//i.test(source) ? source : `https://${source}`;
+    const urlObj = new URL(target);
+    
+    // Anything with a path is already a sitemap URL
+    if (urlObj.pathname !== '/' || urlObj.search) {
+      return [target];
+    }
+    
+    console.log(`🔎 Looking up sitemaps for ${urlObj.origin} in robots.txt`);
+    const sitemaps = await robots.getSitemaps(urlObj.origin);
+    if (sitemaps.length > 0) {
+      console.log(`📑 robots.txt lists ${sitemaps.length} sitemap(s)`);
+      return sitemaps;
+    }
+    
+    console.log(`ℹ️ No sitemaps in robots.txt, trying ${urlObj.origin}/sitemap.xml`);
+    return [`${urlObj.origin}/sitemap.xml`];
   }
   
   /**
    * Parse sitemap content and extract all URLs
    * @param content XML sitemap content
    * @param baseUrl Base URL for resolving relative URLs in sitemapindex
-   * @returns Array of URLs
+   * @param config Configuration
+   * @param scheduler Worker pool and per-host rate limit for fetching sitemaps
+   * @param retryPolicy Retries of failed sitemap requests
+   * @param visited Sitemap URLs already fetched in this parse
+   * @returns Array of URL entries
    */
-  private static async parseSitemapContent(content: string, baseUrl: string): Promise<string[]> {
+  private static async parseSitemapContent(content: string, baseUrl: string, config: Config, scheduler: Scheduler, retryPolicy: RetryPolicy, visited: Set<string>): Promise<SitemapEntry[]> {
     const parser = new xml2js.Parser({ explicitArray: false });
     try {
       const result = await parser.parseStringPromise(content);
@@ -51,7 +182,7 @@ export class SitemapParser {
       // Handle sitemap index (collection of sitemaps)
       if (result.sitemapindex) {
         console.log('📑 Detected sitemap index with multiple sitemaps');
-        return await this.handleSitemapIndex(result.sitemapindex, baseUrl);
+        return await this.handleSitemapIndex(result.sitemapindex, baseUrl, config, scheduler, retryPolicy, visited);
       }
       
       // Handle regular sitemap
@@ -71,58 +202,79 @@ export class SitemapParser {
    * Handle sitemap index format (collection of sitemaps)
    * @param sitemapindex Parsed sitemap index
    * @param baseUrl Base URL for resolving relative URLs
-   * @returns Flattened array of all URLs from all sitemaps
+   * @param config Configuration
+   * @param scheduler Worker pool and per-host rate limit for fetching sitemaps
+   * @param retryPolicy Retries of failed sitemap requests
+   * @param visited Sitemap URLs already fetched in this parse
+   * @returns Flattened array of all URL entries from all sitemaps
    */
-  private static async handleSitemapIndex(sitemapindex: any, baseUrl: string): Promise<string[]> {
+  private static async handleSitemapIndex(sitemapindex: any, baseUrl: string, config: Config, scheduler: Scheduler, retryPolicy: RetryPolicy, visited: Set<string>): Promise<SitemapEntry[]> {
     const sitemaps = Array.isArray(sitemapindex.sitemap) 
       ? sitemapindex.sitemap 
       : [sitemapindex.sitemap];
     
-    const allUrls: string[] = [];
+    // Make sure the URLs are absolute, and remember their position to keep the entries in order
+    const pending: { index: number; url: string }[] = sitemaps
+      .filter((sitemap: any) => sitemap && this.text(sitemap.loc))
+      .map((sitemap: any, index: number) => ({ index, url: new URL(this.text(sitemap.loc), baseUrl).toString() }));
+    const results: SitemapEntry[][] = [];
     let processed = 0;
-    const total = sitemaps.length;
+    const total = pending.length;
     
     console.log(`📊 Found ${total} sitemaps in the sitemap index`);
     
-    // Process each sitemap with concurrency control
-    for (let i = 0; i < total; i += config.maxConcurrent) {
-      const batch = sitemaps.slice(i, i + config.maxConcurrent);
-      const promises = batch.map(async (sitemap: any) => {
-        if (sitemap.loc) {
-          // Make sure the URL is absolute
-          const sitemapUrl = new URL(sitemap.loc, baseUrl).toString();
-          const urls = await this.parseFromUrl(sitemapUrl);
-          return urls;
-        }
-        return [];
-      });
-      
-      const results = await Promise.all(promises);
-      results.forEach(urls => allUrls.push(...urls));
+    // Fetch the sitemaps with the worker pool, within the per-host limits
+    const take = (accepts: (url: string) => boolean) => {
+      const position = pending.findIndex(item => accepts(item.url));
+      return position === -1 ? null : pending.splice(position, 1)[0];
+    };
+    
+    await scheduler.run(take, item => item.url, async item => {
+      results[item.index] = await this.fetchEntries(item.url, config, scheduler, retryPolicy, visited);
       
-      processed += batch.length;
+      processed++;
       console.log(`📈 Processed ${processed}/${total} sitemaps (${Math.round((processed / total) * 100)}%)`);
-    }
+    });
     
-    return allUrls;
+    return ([] as SitemapEntry[]).concat(...results.filter(Boolean));
   }
   
   /**
    * Handle urlset format (regular sitemap)
    * @param urlset Parsed urlset
-   * @returns Array of URLs
+   * @returns Array of URL entries
    */
-  private static handleUrlset(urlset: any): string[] {
+  private static handleUrlset(urlset: any): SitemapEntry[] {
     if (!urlset.url) {
       return [];
     }
     
     const urls = Array.isArray(urlset.url) ? urlset.url : [urlset.url];
-    const extractedUrls = urls
-      .filter((urlEntry: any) => urlEntry.loc) // Ensure we have a URL
-      .map((urlEntry: any) => urlEntry.loc.trim());
+    const extractedUrls: SitemapEntry[] = urls
+      .filter((urlEntry: any) => urlEntry && this.text(urlEntry.loc)) // Ensure we have a URL
+      .map((urlEntry: any) => {
+        const entry: SitemapEntry = { loc: this.text(urlEntry.loc) };
+        const lastmod = this.text(urlEntry.lastmod);
+        const changefreq = this.text(urlEntry.changefreq);
+        const priority = parseFloat(this.text(urlEntry.priority));
+        if (lastmod) entry.lastmod = lastmod;
+        if (changefreq) entry.changefreq = changefreq.toLowerCase();
+        if (!isNaN(priority)) entry.priority = Math.min(Math.max(priority, 0), 1);
+        return entry;
+      });
     
     console.log(`📄 Found ${extractedUrls.length} URLs in sitemap`);
     return extractedUrls;
   }
+  
+  /**
+   * Text of a parsed XML element (a string, or an object when the element has attributes)
+   * @param value Parsed element
+   * @returns Trimmed text, or an empty string
+   */
+  public static text(value: any): string {
+    if (typeof value === 'string') return value.trim();
+    if (value && typeof value._ === 'string') return value._.trim();
+    return '';
+  }
 }
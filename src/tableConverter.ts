@@ -0,0 +1,223 @@
+import TurndownService from 'turndown';
+import { Config } from './config';
+
+/**
+ * What the rules need to know about a table, worked out once per table
+ */
+interface TableInfo {
+  // Rows of the table itself, without those of nested tables
+  rows: HTMLElement[];
+  // Widest row, in cells
+  columns: number;
+  // GFM can't represent the table, so it gets the fallback
+  complex: boolean;
+}
+
+/**
+ * Turndown rules that convert HTML tables to GitHub-flavored Markdown tables.
+ * Tables that GFM can't represent (merged cells, nested tables) fall back to
+ * HTML or a flattened list, depending on tables.fallback.
+ */
+export class TableConverter {
+  // Table element -> its info, filled when the first cell is converted, since every cell and row needs it
+  private static tables = new WeakMap<HTMLElement, TableInfo>();
+
+  /**
+   * Add the table rules to a Turndown service
+   * @param turndownService Service to extend
+   * @param tables Table options
+   */
+  public static addRules(turndownService: TurndownService, tables: Config['tables']): void {
+    turndownService.addRule('tableCell', {
+      filter: ['th', 'td'],
+      replacement: (content, node) => this.convertCell(content, node as HTMLElement)
+    });
+
+    turndownService.addRule('tableRow', {
+      filter: 'tr',
+      replacement: (content, node) => this.convertRow(content, node as HTMLElement)
+    });
+
+    // Row groups and captions must not add blank lines between rows
+    turndownService.addRule('tableSection', {
+      filter: ['thead', 'tbody', 'tfoot'],
+      replacement: content => content
+    });
+
+    turndownService.addRule('tableCaption', {
+      filter: 'caption',
+      replacement: content => `${content.trim()}\n\n`
+    });
+
+    turndownService.addRule('table', {
+      filter: 'table',
+      replacement: (content, node) => {
+        const table = node as HTMLElement;
+        if (this.getInfo(table).complex && tables.fallback === 'html') {
+          return `\n\n${table.outerHTML}\n\n`;
+        }
+        return `\n\n${content.replace(/^\n+|\n+$/g, '')}\n\n`;
+      }
+    });
+  }
+
+  /**
+   * Convert a table cell
+   * @param content Converted cell content
+   * @param cell th or td element
+   * @returns Cell text including its leading separator
+   */
+  private static convertCell(content: string, cell: HTMLElement): string {
+    const table = this.getTable(cell);
+
+    // Cells are single-line in every output format
+    if (table && this.getInfo(table).complex) {
+      const text = content.trim().split(/\s*\n+\s*/).join(' / ');
+      return text ? `${text}; ` : '';
+    }
+
+    const text = content.replace(/\s*\n+\s*/g, ' ').trim();
+    return `| ${text.replace(/\|/g, '\\|')} `;
+  }
+
+  /**
+   * Convert a table row, adding the header separator after the header row
+   * @param content Converted cells of the row
+   * @param row tr element
+   * @returns Row line(s)
+   */
+  private static convertRow(content: string, row: HTMLElement): string {
+    const table = this.getTable(row);
+    if (!table) return content;
+
+    const { rows, columns, complex } = this.getInfo(table);
+    if (complex) {
+      const text = content.replace(/;\s*$/, '').trim();
+      if (!text) return '';
+      // Rows of a nested table end up inside a cell of the outer list
+      return this.getTable(table) ? `${text}\n` : `- ${text}\n`;
+    }
+
+    const cells = this.getCells(row);
+    const line = content + '| '.repeat(columns - cells.length) + '|\n';
+
+    if (rows[0] !== row) {
+      return line;
+    }
+
+    if (this.isHeaderRow(row)) {
+      return line + this.separator(cells, columns);
+    }
+
+    // GFM requires a header row, so tables without one get an empty header
+    return '|' + '   |'.repeat(columns) + '\n' + this.separator([], columns) + line;
+  }
+
+  /**
+   * Build the header separator line with column alignment
+   * @param cells Header cells (may be empty)
+   * @param columns Number of columns
+   * @returns Separator line
+   */
+  private static separator(cells: HTMLElement[], columns: number): string {
+    const parts: string[] = [];
+    for (let i = 0; i < columns; i++) {
+      const align = (cells[i]?.getAttribute('align') || '').toLowerCase();
+      switch (align) {
+        case 'left':
+          parts.push(':---');
+          break;
+        case 'center':
+          parts.push(':---:');
+          break;
+        case 'right':
+          parts.push('---:');
+          break;
+        default:
+          parts.push('---');
+      }
+    }
+    return `| ${parts.join(' | ')} |\n`;
+  }
+
+  /**
+   * Check whether a row is a header row: in a thead, or made of th cells only
+   * @param row tr element
+   * @returns True for header rows
+   */
+  private static isHeaderRow(row: HTMLElement): boolean {
+    if (row.parentNode && row.parentNode.nodeName === 'THEAD') return true;
+    const cells = this.getCells(row);
+    return cells.length > 0 && cells.every(cell => cell.nodeName === 'TH');
+  }
+
+  /**
+   * Get the rows, width and complexity of a table, computing them on first use
+   * @param table table element
+   * @returns Table info
+   */
+  private static getInfo(table: HTMLElement): TableInfo {
+    let info = this.tables.get(table);
+    if (!info) {
+      const rows = this.getRows(table);
+      info = {
+        rows,
+        columns: Math.max(0, ...rows.map(row => this.getCells(row).length)),
+        complex: this.isComplex(table, rows)
+      };
+      this.tables.set(table, info);
+    }
+    return info;
+  }
+
+  /**
+   * Check whether a table needs the fallback: merged cells, a nested table,
+   * or being nested in another table
+   * @param table table element
+   * @param rows Rows of the table
+   * @returns True if GFM can't represent the table
+   */
+  private static isComplex(table: HTMLElement, rows: HTMLElement[]): boolean {
+    if (this.getTable(table)) return true;
+    if (table.querySelector('table')) return true;
+
+    return rows.some(row => this.getCells(row).some(cell =>
+      parseInt(cell.getAttribute('colspan') || '1', 10) > 1 ||
+      parseInt(cell.getAttribute('rowspan') || '1', 10) > 1
+    ));
+  }
+
+  /**
+   * Find the table an element belongs to
+   * @param node Element inside a table
+   * @returns Closest table ancestor, or null
+   */
+  private static getTable(node: Node): HTMLElement | null {
+    let parent = node.parentNode;
+    while (parent) {
+      if (parent.nodeName === 'TABLE') return parent as HTMLElement;
+      parent = parent.parentNode;
+    }
+    return null;
+  }
+
+  /**
+   * Rows of a table, excluding rows of nested tables
+   * @param table table element
+   * @returns tr elements in document order
+   */
+  private static getRows(table: HTMLElement): HTMLElement[] {
+    return Array.from(table.querySelectorAll('tr'))
+      .filter(row => this.getTable(row) === table) as HTMLElement[];
+  }
+
+  /**
+   * Cells of a row
+   * @param row tr element
+   * @returns th and td elements
+   */
+  private static getCells(row: HTMLElement): HTMLElement[] {
+    return Array.from(row.childNodes)
+      .filter(node => node.nodeName === 'TH' || node.nodeName === 'TD') as HTMLElement[];
+  }
+}
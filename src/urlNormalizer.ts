@@ -0,0 +1,144 @@
+import { Config } from './config';
+import { globToRegExp } from './glob';
+
+/**
+ * Cleans URLs before they are queued and detects pages that were already
+ * seen or converted under another URL (www. and bare host, trailing slash,
+ * tracking parameters, rel="canonical")
+ */
+export class UrlNormalizer {
+  private stripPatterns: RegExp[];
+  // Identity key -> first URL seen for it
+  private seen = new Map<string, string>();
+  // Identity key -> URL of the page converted for it
+  private claimed = new Map<string, string>();
+  // Aliases that were already logged
+  private logged = new Set<string>();
+
+  /**
+   * Constructor
+   * @param options URL normalization options
+   */
+  constructor(private options: Config['urlNormalization']) {
+    this.stripPatterns = options.stripParams.map(pattern => globToRegExp(pattern));
+  }
+
+  /**
+   * Clean a URL: lowercase host, no fragment, tracking parameters removed and the query sorted
+   * @param url Absolute URL
+   * @returns Cleaned URL, or the input if it isn't a valid URL
+   */
+  public normalize(url: string): string {
+    if (!this.options.enabled) return url;
+
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      return url;
+    }
+
+    // The URL parser already lowercases the scheme and host and drops default ports
+    urlObj.hash = '';
+
+    const original = Array.from(urlObj.searchParams.entries());
+    const params = original.filter(([name]) => !this.stripPatterns.some(pattern => pattern.test(name)));
+    if (this.options.sortQuery) {
+      params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+    // Rebuilding the query re-encodes it, so leave queries that need no change as they are
+    if (params.length !== original.length || params.some((param, i) => param !== original[i])) {
+      urlObj.search = new URLSearchParams(params).toString();
+    }
+
+    return urlObj.toString();
+  }
+
+  /**
+   * Resolve a URL found in a source or on a page to the URL to queue. Variants
+   * of a URL seen before resolve to that first URL, and the alias is logged.
+   * @param url Absolute URL
+   * @returns URL to queue
+   */
+  public resolve(url: string): string {
+    const normalized = this.normalize(url);
+    if (!this.options.enabled) return normalized;
+
+    const key = this.key(normalized);
+    const first = this.seen.get(key);
+    if (!first) {
+      this.seen.set(key, normalized);
+      return normalized;
+    }
+
+    this.logAlias(url, first);
+    return first;
+  }
+
+  /**
+   * Record that a page was converted. With followCanonical, the page's
+   * rel="canonical" URL is its identity, so another URL with the same canonical
+   * is reported as a duplicate.
+   * @param url URL the page was fetched for
+   * @param canonical Canonical URL from the page, if any
+   * @returns URL of the page already converted for the same identity, or null
+   */
+  public claim(url: string, canonical?: string | null): string | null {
+    if (!this.options.enabled) return null;
+
+    const identity = this.canonicalFor(url, canonical) || this.normalize(url);
+    const key = this.key(identity);
+    const existing = this.claimed.get(key);
+    if (existing && existing !== url) {
+      this.logAlias(url, existing);
+      return existing;
+    }
+
+    this.claimed.set(key, url);
+    // Links to the canonical URL found later resolve to this page
+    if (!this.seen.has(key)) this.seen.set(key, url);
+    return null;
+  }
+
+  /**
+   * Canonical URL to name the output file after, if the page names a different one
+   * @param url URL the page was fetched for
+   * @param canonical Canonical URL from the page, if any
+   * @returns Normalized canonical URL, or null to use the fetched URL
+   */
+  public canonicalFor(url: string, canonical?: string | null): string | null {
+    if (!this.options.enabled || !this.options.followCanonical || !canonical || !/^https?:/i.test(canonical)) return null;
+
+    const normalized = this.normalize(canonical);
+    return this.key(normalized) === this.key(this.normalize(url)) ? null : normalized;
+  }
+
+  /**
+   * Identity of a normalized URL, ignoring the scheme and optionally www. and trailing slashes
+   * @param url Normalized URL
+   * @returns Identity key
+   */
+  private key(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      let host = urlObj.host;
+      let pathname = urlObj.pathname;
+      if (this.options.ignoreWww) host = host.replace(/^www\./, '');
+      if (this.options.ignoreTrailingSlash && pathname.length > 1) pathname = pathname.replace(/\/+$/, '');
+      return `//${host}${pathname}${urlObj.search}`;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Log that a URL was merged into another, once per alias
+   * @param alias URL as found
+   * @param target URL it was merged into
+   */
+  private logAlias(alias: string, target: string): void {
+    if (alias === target || this.logged.has(alias)) return;
+    this.logged.add(alias);
+    console.log(`🔀 Merged alias ${alias} → ${target}`);
+  }
+}
@@ -13,15 +13,22 @@ async function testSitemapParser() {
     console.log(`\nTesting sitemap: ${sitemap}`);
     
     try {
-      const urls = await SitemapParser.parseFromUrl(sitemap);
-      console.log(`Found ${urls.length} URLs in sitemap`);
+      const entries = await SitemapParser.parseFromUrl(sitemap);
+      console.log(`Found ${entries.length} URLs in sitemap`);
       
-      // Print first 5 URLs as a sample
+      // Print first 5 entries as a sample
       console.log('Sample URLs:');
-      urls.slice(0, 5).forEach(url => console.log(` - ${url}`));
+      entries.slice(0, 5).forEach(entry => {
+        const details = [
+          entry.lastmod && `lastmod ${entry.lastmod}`,
+          entry.changefreq && `changefreq ${entry.changefreq}`,
+          entry.priority !== undefined && `priority ${entry.priority}`
+        ].filter(Boolean).join(', ');
+        console.log(` - ${entry.loc}${details ? ` (${details})` : ''}`);
+      });
       
-      if (urls.length > 5) {
-        console.log(`... and ${urls.length - 5} more`);
+      if (entries.length > 5) {
+        console.log(`... and ${entries.length - 5} more`);
       }
     } catch (error) {
       console.error(`Error parsing sitemap: ${error instanceof Error ? error.message : error}`);
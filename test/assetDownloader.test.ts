@@ -0,0 +1,116 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { AssetDownloader } from '../src/assetDownloader';
+import { resolveConfig } from '../src/config';
+
+/**
+ * Serve two copies of an image, a large image, an HTML page and 404s
+ * @param requests Paths requested, in order
+ * @returns Base URL of the server, which is closed when the test ends
+ */
+async function serveAssets(t: TestContext, requests: string[] = []): Promise<string> {
+  const files: Record<string, [string, Buffer]> = {
+    '/img/a.png': ['image/png', Buffer.from('small image')],
+    '/img/copy.png': ['image/png', Buffer.from('small image')],
+    '/img/wide.webp': ['image/webp; charset=binary', Buffer.from('wide image')],
+    '/img/big.png': ['image/png', Buffer.alloc(2000)],
+    '/page': ['text/html', Buffer.from('<p>not media</p>')]
+  };
+  const server = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    const file = files[req.url || ''];
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': file[0] }).end(file[1]);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Downloader that doesn't retry and takes assets of up to 1000 bytes
+ */
+function downloader(t: TestContext): AssetDownloader {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'error', () => {});
+  return new AssetDownloader(resolveConfig({ retryAttempts: 0, assets: { maxBytes: 1000 } }));
+}
+
+/**
+ * Attribute values of the elements matching a selector in rewritten HTML
+ */
+function attributes(html: string, pattern: RegExp): string[] {
+  return Array.from(html.matchAll(pattern), match => match[1]);
+}
+
+test('media are saved under their content hash and references point to the copies', async t => {
+  const baseUrl = await serveAssets(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assets-'));
+  try {
+    const html = await downloader(t).localize('<img src="../img/a.png"><img src="/img/copy.png"><video poster="/img/a.png"></video>', `${baseUrl}/docs/`, dir);
+    const [a, copy, poster] = attributes(html, /(?:src|poster)="([^"]+)"/g);
+    assert.match(a, /^assets\/[0-9a-f]{16}\.png$/);
+    // The same content is stored once
+    assert.equal(copy, a);
+    assert.equal(poster, a);
+    assert.deepEqual(fs.readdirSync(path.join(dir, 'assets')), [a.substring('assets/'.length)]);
+    assert.equal(fs.readFileSync(path.join(dir, a), 'utf-8'), 'small image');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('every srcset candidate is saved and images without src get the largest', async t => {
+  const baseUrl = await serveAssets(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assets-'));
+  try {
+    const html = await downloader(t).localize(`<img srcset="${baseUrl}/img/a.png 400w, ${baseUrl}/img/wide.webp 800w">`, `${baseUrl}/docs/`, dir);
+    const [srcset] = attributes(html, /srcset="([^"]+)"/g);
+    const [src] = attributes(html, / src="([^"]+)"/g);
+    assert.match(srcset, /^assets\/[0-9a-f]{16}\.png 400w, assets\/([0-9a-f]{16})\.webp 800w$/);
+    assert.equal(src, srcset.split(', ')[1].split(' ')[0]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('media of other types, too large or missing keep their original reference', async t => {
+  const baseUrl = await serveAssets(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assets-'));
+  try {
+    const html = await downloader(t).localize('<img src="/page"><img src="/img/big.png"><img src="/img/gone.png"><img src="data:image/png;base64,AA==">', `${baseUrl}/docs/`, dir);
+    assert.deepEqual(attributes(html, /src="([^"]+)"/g), ['/page', '/img/big.png', '/img/gone.png', 'data:image/png;base64,AA==']);
+    assert.equal(fs.existsSync(path.join(dir, 'assets')), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('pages in another folder get their own copy of an asset downloaded once', async t => {
+  const requests: string[] = [];
+  const baseUrl = await serveAssets(t, requests);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assets-'));
+  try {
+    const assets = downloader(t);
+    const first = await assets.localize('<img src="/img/wide.webp">', `${baseUrl}/docs/`, path.join(dir, 'docs'));
+    const second = await assets.localize('<img src="/img/wide.webp">', `${baseUrl}/blog/`, path.join(dir, 'blog'));
+    const [asset] = attributes(first, /src="([^"]+)"/g);
+    assert.deepEqual(attributes(second, /src="([^"]+)"/g), [asset]);
+    assert.ok(fs.existsSync(path.join(dir, 'docs', asset)));
+    assert.ok(fs.existsSync(path.join(dir, 'blog', asset)));
+    assert.deepEqual(requests, ['/img/wide.webp']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Charset } from '../src/charset';
+
+test('a byte order mark wins over every declaration', () => {
+  const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('<p>héllo</p>', 'utf16le')]);
+  assert.deepEqual(Charset.decode(utf16, 'text/html; charset=iso-8859-1'), { text: '<p>héllo</p>', charset: 'utf-16le' });
+
+  const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('<p>é</p>')]);
+  assert.deepEqual(Charset.decode(utf8), { text: '<p>é</p>', charset: 'utf-8' });
+});
+
+test('the Content-Type charset wins over <meta>', () => {
+  const page = Buffer.from('<meta charset="utf-8"><p>\xe9</p>', 'latin1');
+  assert.deepEqual(Charset.decode(page, 'text/html; charset="ISO-8859-1"'), { text: '<meta charset="utf-8"><p>é</p>', charset: 'windows-1252' });
+});
+
+test('<meta charset> and <meta http-equiv> declarations are read', () => {
+  const shiftJis = Buffer.concat([Buffer.from('<meta charset="Shift_JIS"><p>'), Buffer.from([0x93, 0xfa, 0x96, 0x7b]), Buffer.from('</p>')]);
+  assert.deepEqual(Charset.decode(shiftJis, 'text/html'), { text: '<meta charset="Shift_JIS"><p>日本</p>', charset: 'shift_jis' });
+
+  const httpEquiv = Buffer.from('<meta http-equiv="Content-Type" content="text/html; charset=koi8-r"><p>\xf0\xd2\xc9</p>', 'latin1');
+  assert.equal(Charset.decode(httpEquiv).text.endsWith('<p>При</p>'), true);
+});
+
+test('declarations in comments and other meta tags are ignored', () => {
+  const page = Buffer.from('<!-- <meta charset="koi8-r"> --><meta name="description" content="charset=koi8-r"><p>caf\xc3\xa9</p>', 'latin1');
+  assert.equal(Charset.decode(page).charset, 'utf-8');
+});
+
+test('undeclared pages are UTF-8 when valid and Windows-1252 otherwise', () => {
+  assert.deepEqual(Charset.decode(Buffer.from('<p>naïve — ok</p>')), { text: '<p>naïve — ok</p>', charset: 'utf-8' });
+  // Curly quotes, euro sign and em dash live in the 0x80-0x9F range
+  const legacy = Buffer.from([0x93, 0x61, 0x94, 0x20, 0x80, 0x20, 0x97, 0x20, 0xe9]);
+  assert.deepEqual(Charset.decode(legacy), { text: '“a” € — é', charset: 'windows-1252' });
+});
+
+test('unknown labels fall back and UTF-16 declarations in ASCII bytes mean UTF-8', () => {
+  assert.equal(Charset.decode(Buffer.from('<p>é</p>'), 'text/html; charset=no-such-charset').charset, 'utf-8');
+  assert.equal(Charset.decode(Buffer.from('<meta charset="utf-16"><p>é</p>')).text, '<meta charset="utf-16"><p>é</p>');
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Chunker } from '../src/chunker';
+import { DEFAULT_CONFIG } from '../src/config';
+
+const options = { ...DEFAULT_CONFIG.chunks, enabled: true };
+
+test('chunks split at headings and carry their breadcrumb', () => {
+  const chunks = Chunker.split('# Guide\n\nIntro.\n\n## Install\n\nRun it.\n\n#### Deep\n\nSkipped a level.\n\n## Use\n\nCall it.', options);
+  assert.deepEqual(chunks.map(chunk => chunk.headings), [['Guide'], ['Guide', 'Install'], ['Guide', 'Install', 'Deep'], ['Guide', 'Use']]);
+  assert.equal(chunks[1].text, '## Install\n\nRun it.');
+  assert.equal(chunks[1].tokens, Chunker.estimateTokens(chunks[1].text));
+});
+
+test('setext headings split chunks and sections with only a heading are dropped', () => {
+  const chunks = Chunker.split('Guide\n=====\n\nSection\n-------\n\nText.', options);
+  assert.equal(chunks.length, 1);
+  assert.deepEqual(chunks[0].headings, ['Guide', 'Section']);
+});
+
+test('long sections are split with overlap and stay under maxTokens', () => {
+  const sentence = 'This sentence is about forty characters. ';
+  const chunks = Chunker.split(`# Long\n\n${sentence.repeat(60)}`, { ...options, maxTokens: 100, overlapTokens: 20 });
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.tokens <= 100, `${chunk.tokens} tokens`);
+  }
+  // The start of each chunk repeats the end of the one before
+  const end = chunks[1].text.substring(0, 40);
+  assert.ok(chunks[0].text.includes(end));
+});
+
+test('code blocks and tables are never split', () => {
+  const code = '```js\n' + 'const value = 1;\n'.repeat(40) + '```';
+  const table = '| a | b |\n| --- | --- |\n' + '| cell | cell |\n'.repeat(40).trim();
+  const chunks = Chunker.split(`Before.\n\n${code}\n\n${table}\n\nAfter.`, { ...options, maxTokens: 50, overlapTokens: 10 });
+  assert.ok(chunks.some(chunk => chunk.text === code));
+  assert.ok(chunks.some(chunk => chunk.text === table));
+  // No overlap is taken from code or tables
+  assert.equal(chunks[chunks.length - 1].text, 'After.');
+});
+
+test('headings inside fenced code are not headings', () => {
+  const chunks = Chunker.split('# Doc\n\n~~~sh\n# comment\n~~~\n\nText.', options);
+  assert.equal(chunks.length, 1);
+  assert.deepEqual(chunks[0].headings, ['Doc']);
+});
+
+test('reference links become inline links so each chunk holds its URLs', () => {
+  const markdown = [
+    '# One', '', 'See the [guide][1] and [API][].', '',
+    '## Two', '', 'Back to the [guide][1], `[code][1]` stays.', '',
+    '```', '[x][1]', '[1]: https://example.com/in-code', '```', '',
+    '[1]: https://example.com/guide_(v2) "The guide"',
+    '[api]: https://example.com/api'
+  ].join('\n');
+  const chunks = Chunker.split(markdown, options);
+  assert.deepEqual(chunks.map(chunk => chunk.text), [
+    '# One\n\nSee the [guide](https://example.com/guide_\\(v2\\) "The guide") and [API](https://example.com/api).',
+    '## Two\n\nBack to the [guide](https://example.com/guide_\\(v2\\) "The guide"), `[code][1]` stays.\n\n```\n[x][1]\n[1]: https://example.com/in-code\n```'
+  ]);
+});
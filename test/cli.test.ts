@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const CLI = path.join(__dirname, '..', 'src', 'cli.ts');
+
+/**
+ * Run the CLI in a new process
+ * @param args Command-line arguments
+ * @returns Exit code and output
+ */
+function cli(args: string[]): { status: number | null; output: string } {
+  // Type errors are the type-check's job, skipping it here keeps each run fast
+  const env = { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' };
+  const result = spawnSync(process.execPath, ['-r', 'ts-node/register', CLI, ...args], { encoding: 'utf-8', env, timeout: 60000 });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+test('config validate reads the file given with --config or as an argument', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+  try {
+    const valid = path.join(dir, 'valid.json');
+    const invalid = path.join(dir, 'bad.json');
+    fs.writeFileSync(valid, JSON.stringify({ outputDir: 'out' }));
+    fs.writeFileSync(invalid, JSON.stringify({ maxConcurent: 3 }));
+
+    const withOption = cli(['config', 'validate', '--config', invalid]);
+    assert.equal(withOption.status, 1);
+    assert.match(withOption.output, /bad\.json has 1 problem/);
+    assert.match(withOption.output, /maxConcurent: unknown field, did you mean "maxConcurrent"\?/);
+
+    assert.equal(cli(['config', 'validate', `--config=${valid}`]).status, 0);
+    assert.equal(cli(['config', 'validate', valid]).status, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import TurndownService from 'turndown';
+import { CodeBlocks } from '../src/codeBlocks';
+import { Config, DEFAULT_CONFIG } from '../src/config';
+
+/**
+ * Convert HTML to Markdown with the code block rule
+ */
+function convert(html: string, options: Partial<Config['turndownOptions']> = {}): string {
+  const document = new JSDOM(html).window.document;
+  CodeBlocks.prepare(document);
+  const turndownOptions = { ...DEFAULT_CONFIG.turndownOptions, ...options };
+  const turndownService = new TurndownService(turndownOptions);
+  CodeBlocks.addRules(turndownService, turndownOptions);
+  return turndownService.turndown(document.body.innerHTML);
+}
+
+test('the language is read from the code, the pre or a wrapper', () => {
+  assert.equal(convert('<pre><code class="language-ts">let a = 1;</code></pre>'), '```ts\nlet a = 1;\n```');
+  assert.equal(convert('<div class="highlight-Python notranslate"><div class="highlight"><pre>x = 1</pre></div></div>'), '```python\nx = 1\n```');
+  assert.equal(convert('<pre class="brush: js; gutter: false">f()</pre>'), '```js\nf()\n```');
+  assert.equal(convert('<pre data-lang="C++">int a;</pre>'), '```c++\nint a;\n```');
+  assert.equal(convert('<pre><code class="nohighlight">plain</code></pre>'), '```\nplain\n```');
+});
+
+test('whitespace is kept and highlighter spans and line elements are flattened', () => {
+  const html = '<pre><code class="language-py"><span class="k">def</span> <span class="nf">f</span>():\n    <span class="k">return</span>  1\n\n\n</code></pre>';
+  assert.equal(convert(html), '```py\ndef f():\n    return  1\n\n\n```');
+  assert.equal(convert('<pre><div class="line">a</div><div class="line"></div><div class="line">  b</div></pre>'), '```\na\n\n  b\n```');
+  assert.equal(convert('<pre>a<br>b</pre>'), '```\na\nb\n```');
+});
+
+test('line-number gutters and copy buttons are dropped', () => {
+  const table = '<table class="highlighttable"><tr><td class="linenos"><pre>1\n2</pre></td><td class="code"><pre><code class="language-sh">ls\npwd</code></pre></td></tr></table>';
+  assert.equal(convert(table), '```sh\nls\npwd\n```');
+  assert.equal(convert('<pre><button>Copy</button><code>x</code></pre>'), '```\nx\n```');
+});
+
+test('fences are longer than any fence in the code, and indented style is kept', () => {
+  assert.equal(convert('<pre>```js\nx\n```</pre>'), '````\n```js\nx\n```\n````');
+  assert.equal(convert('<pre>a\n  b</pre>', { codeBlockStyle: 'indented' }), '    a\n      b');
+});
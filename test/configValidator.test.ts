@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigValidator } from '../src/configValidator';
+
+/**
+ * Validate a value and format its issues
+ */
+function issues(value: unknown): string[] {
+  return ConfigValidator.validate(value).issues.map(issue => ConfigValidator.format(issue));
+}
+
+test('a valid configuration has no issues and is kept whole', () => {
+  const config = { outputDir: 'out', maxConcurrent: 2, turndownOptions: { headingStyle: 'setext' }, selectors: { exclude: ['nav'] } };
+  assert.deepEqual(ConfigValidator.validate(config), { issues: [], valid: config });
+});
+
+test('the file must be an object', () => {
+  assert.deepEqual(issues([]), ['expected an object, got an array']);
+  assert.deepEqual(issues(null), ['expected an object, got null']);
+});
+
+test('unknown fields are reported with the closest known name', () => {
+  assert.deepEqual(issues({ outputdir: 'out', turndownOptions: { headingStyel: 'atx' }, zzz: 1 }), [
+    'outputdir: unknown field, did you mean "outputDir"?',
+    'turndownOptions.headingStyel: unknown field, did you mean "headingStyle"?',
+    'zzz: unknown field'
+  ]);
+});
+
+test('wrong types are reported and left out of the valid config', () => {
+  const { issues: found, valid } = ConfigValidator.validate({ outputDir: 'out', maxConcurrent: '4', selectors: { exclude: ['nav', 1] } });
+  assert.deepEqual(found.map(issue => ConfigValidator.format(issue)), [
+    'maxConcurrent: expected a number, got string "4" (remove the quotes: 4)',
+    'selectors.exclude[1]: expected a string, got number 1'
+  ]);
+  assert.deepEqual(valid, { outputDir: 'out', selectors: {} });
+});
+
+test('enum fields accept only their values', () => {
+  assert.deepEqual(issues({ tables: { fallback: 'lists' } }), ['tables.fallback: expected one of "html", "list", got "lists", did you mean "list"?']);
+});
+
+test('profiles need a name and are checked like the global options', () => {
+  assert.deepEqual(issues({ profiles: [{ host: 'a.com' }, { name: 'b', turndownOptions: { linkStyle: 'inline' } }, 'c'] }), [
+    'profiles[0].name: required field is missing',
+    'profiles[1].turndownOptions.linkStyle: expected one of "inlined", "referenced", got "inline", did you mean "inlined"?',
+    'profiles[2]: expected an object, got string "c"'
+  ]);
+});
+
+test('free-form objects check the type of their values', () => {
+  assert.deepEqual(issues({ fileOptions: { frontMatterTemplate: { team: 'docs', draft: false } } }), ['fileOptions.frontMatterTemplate.draft: expected a string, got boolean false']);
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentTypes } from '../src/contentTypes';
+
+test('HTML and XHTML are converted, including responses without a type', () => {
+  for (const contentType of ['text/html', 'Text/HTML; charset=ISO-8859-1', 'application/xhtml+xml', '', '; charset=utf-8']) {
+    assert.deepEqual(ContentTypes.classify(contentType, { unknown: 'skip', maxResponseBytes: 0 }), { kind: 'html' }, contentType);
+  }
+});
+
+test('plain text and Markdown are passed through', () => {
+  assert.equal(ContentTypes.classify('text/plain; charset=utf-8', { unknown: 'skip', maxResponseBytes: 0 }).kind, 'text');
+  assert.equal(ContentTypes.classify('text/markdown', { unknown: 'skip', maxResponseBytes: 0 }).kind, 'text');
+});
+
+test('feeds and binary files are skipped whatever the policy for unknown types', () => {
+  const options = { unknown: 'html' as const, maxResponseBytes: 0 };
+  assert.deepEqual(ContentTypes.classify('application/rss+xml', options), { kind: 'skip', reason: 'application/rss+xml is a feed, use it as the feed source to convert its articles' });
+  assert.deepEqual(ContentTypes.classify('application/pdf', options), { kind: 'skip', reason: 'application/pdf is a binary file' });
+  assert.deepEqual(ContentTypes.classify('IMAGE/PNG', options), { kind: 'skip', reason: 'image/png is a binary file' });
+  assert.equal(ContentTypes.classify('application/vnd.openxmlformats-officedocument.wordprocessingml.document', options).kind, 'skip');
+});
+
+test('other types follow the unknown policy', () => {
+  assert.deepEqual(ContentTypes.classify('application/json', { unknown: 'skip', maxResponseBytes: 0 }), { kind: 'skip', reason: 'application/json is not a supported type' });
+  assert.deepEqual(ContentTypes.classify('application/json', { unknown: 'text', maxResponseBytes: 0 }), { kind: 'text' });
+  assert.deepEqual(ContentTypes.classify('text/csv', { unknown: 'html', maxResponseBytes: 0 }), { kind: 'html' });
+});
@@ -0,0 +1,299 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Converter } from '../src/converter';
+import { ConverterOptions } from '../src/config';
+
+/**
+ * Write a small site of two pages that link to each other into a temporary folder
+ * @returns Folder with the site in site/ and room for the output in out/
+ */
+function makeSite(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  const page = (title: string, link: string) =>
+    `<html><head><title>${title}</title></head><body><h1>${title}</h1><p>${title} links to <a href="${link}">the other page</a>.</p></body></html>`;
+  fs.mkdirSync(path.join(dir, 'site'));
+  fs.writeFileSync(path.join(dir, 'site', 'a.html'), page('Page A', 'b.html'));
+  fs.writeFileSync(path.join(dir, 'site', 'b.html'), page('Page B', 'a.html'));
+  return dir;
+}
+
+/**
+ * Start an HTTP server on a free port
+ * @param handler Request handler
+ * @returns Base URL of the server, which is closed when the test ends
+ */
+async function listen(t: TestContext, handler: http.RequestListener): Promise<string> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Serve two pages that link to each other, answering If-None-Match with 304
+ * @returns Base URL of the server
+ */
+function serveSite(t: TestContext): Promise<string> {
+  return listen(t, (req, res) => {
+    const name = req.url === '/docs/a' ? 'A' : req.url === '/docs/b' ? 'B' : null;
+    if (!name) {
+      res.writeHead(404).end();
+      return;
+    }
+    const etag = `"${name}"`;
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html', ETag: etag });
+    const other = `http://${req.headers.host}/docs/${name === 'A' ? 'b' : 'a'}`;
+    res.end(`<html><head><title>Page ${name}</title></head><body><h1>Page ${name}</h1><p>See <a href="${other}">the other page</a>.</p></body></html>`);
+  });
+}
+
+/**
+ * Options for fetching the served pages with link rewriting
+ */
+function serverOptions(dir: string, baseUrl: string, options: ConverterOptions = {}): ConverterOptions {
+  const urlFile = path.join(dir, 'urls.txt');
+  fs.writeFileSync(urlFile, `${baseUrl}/docs/a\n${baseUrl}/docs/b\n`);
+  return {
+    ...options,
+    outputDir: path.join(dir, 'out'),
+    urlSource: { type: 'file', file: urlFile },
+    robots: { respect: false },
+    report: { enabled: false },
+    fileOptions: { rewriteInternalLinks: true, addDate: false }
+  };
+}
+
+/**
+ * Options for converting the site with link rewriting and llms.txt
+ */
+function siteOptions(dir: string, options: ConverterOptions = {}): ConverterOptions {
+  return {
+    ...options,
+    outputDir: path.join(dir, 'out'),
+    urlSource: { type: 'directory', directory: path.join(dir, 'site'), baseUrl: 'https://e.com/docs/' },
+    llmsTxt: { enabled: true },
+    report: { enabled: false },
+    fileOptions: { rewriteInternalLinks: true, addDate: false }
+  };
+}
+
+/**
+ * Silence the progress output of a run
+ */
+function quiet(t: TestContext): void {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'warn', () => {});
+}
+
+test('a resumed run without a manifest keeps the pages done before the interruption', async t => {
+  quiet(t);
+  const dir = makeSite();
+  try {
+    const force = { incremental: { enabled: false } };
+    await new Converter(siteOptions(dir, force)).run();
+
+    // Interrupt the run after page A: B is still pending and its file isn't written yet
+    const statePath = path.join(dir, 'out', '.run-state.json');
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    const b = state.jobs.find((job: any) => job.url.endsWith('/b.html'));
+    b.state = 'pending';
+    delete b.output;
+    fs.writeFileSync(statePath, JSON.stringify(state));
+    fs.rmSync(path.join(dir, 'out', 'b.md'));
+    fs.writeFileSync(path.join(dir, 'out', 'a.md'), fs.readFileSync(path.join(dir, 'out', 'a.md'), 'utf-8').replace('b.md', 'https://e.com/docs/b.html'));
+
+    const counts = await new Converter(siteOptions(dir, { ...force, state: { resume: true } })).run();
+    assert.equal(counts.done, 2);
+
+    const llmsTxt = fs.readFileSync(path.join(dir, 'out', 'llms.txt'), 'utf-8');
+    assert.match(llmsTxt, /Page A/);
+    assert.match(llmsTxt, /Page B/);
+    assert.match(fs.readFileSync(path.join(dir, 'out', 'a.md'), 'utf-8'), /: b\.md$/m);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('chunks keep absolute links on a re-run after links were rewritten', async t => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    const baseUrl = await serveSite(t);
+    const options = serverOptions(dir, baseUrl, { chunks: { enabled: true } });
+    const chunks = () => fs.readFileSync(path.join(dir, 'out', 'chunks.jsonl'), 'utf-8');
+
+    await new Converter(options).run();
+    const first = chunks();
+    assert.match(first, new RegExp(`\\]\\(${baseUrl}/docs/b\\)`));
+
+    // The second run gets 304s and keeps the files whose links the first run rewrote
+    await new Converter(options).run();
+    assert.equal(chunks(), first);
+    assert.doesNotMatch(chunks(), /\.md\)/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('chunks of local files keep absolute links on a re-run', async t => {
+  quiet(t);
+  const dir = makeSite();
+  try {
+    const options = siteOptions(dir, { chunks: { enabled: true } });
+    const chunks = () => fs.readFileSync(path.join(dir, 'out', 'chunks.jsonl'), 'utf-8');
+
+    await new Converter(options).run();
+    const first = chunks();
+    await new Converter(options).run();
+    assert.equal(chunks(), first);
+    assert.match(first, /https:\/\/e\.com\/docs\/b\.html/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('llms-full.txt keeps absolute links on a re-run after links were rewritten', async t => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    const baseUrl = await serveSite(t);
+    const options = serverOptions(dir, baseUrl, { llmsTxt: { enabled: true } });
+    const llmsFull = () => fs.readFileSync(path.join(dir, 'out', 'llms-full.txt'), 'utf-8');
+
+    await new Converter(options).run();
+    const first = llmsFull();
+    assert.match(first, new RegExp(`\\]: ${baseUrl}/docs/a$`, 'm'));
+
+    await new Converter(options).run();
+    assert.equal(llmsFull(), first);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('every 2xx response is converted', async t => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    const baseUrl = await listen(t, (_req, res) => {
+      res.writeHead(203, 'Non-Authoritative Information', { 'Content-Type': 'text/html' });
+      res.end('<html><head><title>Page A</title></head><body><p>Served through a proxy.</p></body></html>');
+    });
+    const options = serverOptions(dir, baseUrl);
+
+    const counts = await new Converter(options).run();
+    assert.equal(counts.done, 2);
+    assert.equal(counts.failed, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a 304 without an earlier copy fetches the page again without validators', async t => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    // A cache that answers 304 unless it is asked for a fresh copy
+    const baseUrl = await listen(t, (req, res) => {
+      if (req.headers['cache-control'] !== 'no-cache' || req.headers['if-none-match']) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(`<html><head><title>Fresh</title></head><body><p>Fresh copy of ${req.url}</p></body></html>`);
+    });
+    const converter = new Converter(serverOptions(dir, baseUrl));
+
+    const counts = await converter.run();
+    assert.equal(counts.done, 2);
+    for (const { url, outputPath } of converter.getReport()!.urls) {
+      assert.match(fs.readFileSync(outputPath!, 'utf-8'), new RegExp(`Fresh copy of ${new URL(url).pathname}`));
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('the run report lists the charset of each page', async t => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    const baseUrl = await listen(t, (req, res) => {
+      const latin1 = req.url === '/docs/a';
+      res.writeHead(200, { 'Content-Type': `text/html; charset=${latin1 ? 'iso-8859-1' : 'utf-8'}` });
+      res.end(Buffer.from('<html><body><p>Café</p></body></html>', latin1 ? 'latin1' : 'utf-8'));
+    });
+    const options = serverOptions(dir, baseUrl);
+    const converter = new Converter({ ...options, report: { enabled: true, csvFile: 'report.csv' } });
+    await converter.run();
+
+    const charsets = Object.fromEntries(converter.getReport()!.urls.map(entry => [new URL(entry.url).pathname, entry.charset]));
+    assert.deepEqual(charsets, { '/docs/a': 'windows-1252', '/docs/b': 'utf-8' });
+
+    const csv = fs.readFileSync(path.join(dir, 'out', 'report.csv'), 'utf-8');
+    assert.match(csv.split('\r\n')[0], /,bytes,charset,wordCount,/);
+    assert.match(csv, /,windows-1252,/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('failed attempts close their connection before the retry', async t => {
+  quiet(t);
+  t.mock.method(console, 'error', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    const sockets = new Set<unknown>();
+    const baseUrl = await listen(t, (req, res) => {
+      sockets.add(req.socket);
+      req.socket.once('close', () => sockets.delete(req.socket));
+      res.writeHead(503, { 'Content-Type': 'text/html' }).end('<p>Try again later</p>');
+    });
+    const options = serverOptions(dir, baseUrl, { retryAttempts: 1, retryDelay: 1 });
+
+    const counts = await new Converter(options).run();
+    assert.equal(counts.failed, 2);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(sockets.size, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a body that never ends times out and is retried', async t => {
+  quiet(t);
+  t.mock.method(console, 'error', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'converter-'));
+  try {
+    let attempts = 0;
+    const baseUrl = await listen(t, (_req, res) => {
+      attempts++;
+      // A byte now and then keeps the connection from going idle
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      const drip = setInterval(() => res.write(' '), 50);
+      res.on('close', () => clearInterval(drip));
+    });
+    const options = serverOptions(dir, baseUrl, { timeout: 200, retryAttempts: 1, retryDelay: 1 });
+    fs.writeFileSync(options.urlSource!.file!, `${baseUrl}/docs/a\n`);
+
+    const converter = new Converter(options);
+    const counts = await converter.run();
+    assert.equal(counts.failed, 1);
+    assert.equal(attempts, 2);
+    assert.match(converter.getReport()!.urls[0].error!, /Timed out reading the response body after 200ms/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,103 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Crawler } from '../src/crawler';
+import { JobQueue } from '../src/jobQueue';
+import { Config, resolveConfig } from '../src/config';
+
+const SEED = 'https://example.com/docs/';
+
+/**
+ * Links on each page of a small site, other URLs answer with an error
+ */
+const SITE: Record<string, string[]> = {
+  'https://example.com/docs/': ['a', '/docs/b', '/blog/post', 'https://sub.example.com/docs/', 'https://other.com/docs/'],
+  'https://example.com/docs/a': ['/docs/a/deep'],
+  'https://example.com/docs/a/deep': ['/docs/a/deeper'],
+  'https://example.com/docs/a/deeper': [],
+  'https://example.com/docs/b': ['/docs/'],
+  'https://example.com/blog/post': ['/blog/other'],
+  'https://example.com/blog/other': [],
+  'https://sub.example.com/docs/': []
+};
+
+/**
+ * Crawl the site from its seed with the given limits
+ * @returns URLs visited, sorted
+ */
+async function crawl(t: TestContext, options: Partial<Config['crawl']>): Promise<string[]> {
+  t.mock.method(console, 'log', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-'));
+  const jobs = JobQueue.create(path.join(dir, 'state.json'), 'crawl');
+  try {
+    Crawler.addSeeds(jobs, [SEED]);
+    await new Crawler(jobs, async job => {
+      const links = SITE[job.url];
+      jobs.mark(job.url, links ? 'done' : 'failed');
+      return links ? Crawler.extractLinks(links.map(link => `<a href="${link}">link</a>`).join(''), job.url) : null;
+    }, resolveConfig({ crawl: options })).run();
+    return jobs.urls('done').sort();
+  } finally {
+    jobs.saveSync();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('links are resolved against the page and <base href>, without fragments and nofollow links', () => {
+  const html = `<base href="https://example.com/docs/">
+    <a href="guide#intro">Guide</a>
+    <a href="/about">About</a>
+    <a href="guide">Guide again</a>
+    <a href="/login" rel="nofollow">Login</a>
+    <a href="mailto:team@example.com">Mail</a>
+    <a href="manual.pdf">PDF</a>`;
+  assert.deepEqual(Crawler.extractLinks(html, 'https://example.com/index.html'), ['https://example.com/docs/guide', 'https://example.com/about']);
+});
+
+test('the crawl stops at maxDepth', async t => {
+  assert.deepEqual(await crawl(t, { maxDepth: 0, scope: 'host' }), [SEED]);
+  assert.deepEqual(await crawl(t, { maxDepth: 1, scope: 'host' }), [
+    'https://example.com/blog/post',
+    'https://example.com/docs/',
+    'https://example.com/docs/a',
+    'https://example.com/docs/b'
+  ]);
+});
+
+test('host scope stays on the host of the seed', async t => {
+  assert.deepEqual(await crawl(t, { maxDepth: 5, scope: 'host' }), [
+    'https://example.com/blog/other',
+    'https://example.com/blog/post',
+    'https://example.com/docs/',
+    'https://example.com/docs/a',
+    'https://example.com/docs/a/deep',
+    'https://example.com/docs/a/deeper',
+    'https://example.com/docs/b'
+  ]);
+});
+
+test('path scope stays under the path of the seed', async t => {
+  assert.deepEqual(await crawl(t, { maxDepth: 5, scope: 'path' }), [
+    'https://example.com/docs/',
+    'https://example.com/docs/a',
+    'https://example.com/docs/a/deep',
+    'https://example.com/docs/a/deeper',
+    'https://example.com/docs/b'
+  ]);
+});
+
+test('hosts scope follows the allowed hosts and their subdomains', async t => {
+  assert.deepEqual(await crawl(t, { maxDepth: 1, scope: 'hosts', allowedHosts: ['example.com'] }), [
+    'https://example.com/blog/post',
+    'https://example.com/docs/',
+    'https://example.com/docs/a',
+    'https://example.com/docs/b',
+    'https://sub.example.com/docs/'
+  ]);
+});
+
+test('the crawl stops at maxPages', async t => {
+  assert.equal((await crawl(t, { maxDepth: 5, maxPages: 3, scope: 'host' })).length, 3);
+});
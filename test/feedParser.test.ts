@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FeedParser } from '../src/feedParser';
+
+test('RSS items are read with their link, date, author and content', async () => {
+  const entries = await FeedParser.parse(`<?xml version="1.0"?>
+    <rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <channel>
+        <item>
+          <title>First</title>
+          <link>/posts/first</link>
+          <pubDate>Tue, 10 Jun 2025 04:00:00 GMT</pubDate>
+          <dc:creator>Sam</dc:creator>
+          <content:encoded><![CDATA[<p>Body</p>]]></content:encoded>
+        </item>
+        <item><guid>https://blog.example.com/posts/second</guid></item>
+        <item><guid isPermaLink="false">tag:example,2025:3</guid><title>No link</title></item>
+      </channel>
+    </rss>`, 'https://blog.example.com/feed.xml');
+
+  assert.deepEqual(entries, [
+    { url: 'https://blog.example.com/posts/first', title: 'First', published: '2025-06-10T04:00:00.000Z', author: 'Sam', content: '<p>Body</p>' },
+    { url: 'https://blog.example.com/posts/second', title: null, published: null, author: null, content: null }
+  ]);
+});
+
+test('Atom entries use their alternate link and skip xhtml content', async () => {
+  const entries = await FeedParser.parse(`<?xml version="1.0"?>
+    <feed xmlns="http://www.w3.org/2005/Atom">
+      <entry>
+        <title>One</title>
+        <link rel="self" href="https://example.com/api/1"/>
+        <link rel="alternate" href="https://example.com/one"/>
+        <updated>2025-06-10T04:00:00Z</updated>
+        <author><name>Ann</name></author>
+        <author><name>Bo</name></author>
+        <content type="html">&lt;p&gt;One&lt;/p&gt;</content>
+      </entry>
+      <entry>
+        <title>Two</title>
+        <link href="two"/>
+        <published>not a date</published>
+        <content type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml">Two</div></content>
+      </entry>
+    </feed>`, 'https://example.com/atom.xml');
+
+  assert.deepEqual(entries, [
+    { url: 'https://example.com/one', title: 'One', published: '2025-06-10T04:00:00.000Z', author: 'Ann, Bo', content: '<p>One</p>' },
+    { url: 'https://example.com/two', title: 'Two', published: null, author: null, content: null }
+  ]);
+});
+
+test('documents that are not feeds are rejected', async () => {
+  await assert.rejects(FeedParser.parse('<urlset><url><loc>https://example.com/</loc></url></urlset>', 'https://example.com/'), /not an RSS or Atom feed/);
+});
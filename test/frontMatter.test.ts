@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FrontMatter, PageMetadata } from '../src/frontMatter';
+import { Config, resolveConfig } from '../src/config';
+
+const metadata: PageMetadata = {
+  url: 'https://example.com/docs/a',
+  title: 'Say "hi"',
+  description: null,
+  language: 'en',
+  fetchedAt: '2025-06-10T04:00:00.000Z'
+};
+
+/**
+ * Build the header of the metadata with the given file options
+ */
+function build(options: Partial<Config['fileOptions']>, page: PageMetadata = metadata): string {
+  const { fileOptions } = resolveConfig({ fileOptions: { addSourceUrl: true, addDate: true, frontMatterTemplate: {}, ...options } });
+  return FrontMatter.build(page, fileOptions);
+}
+
+test('the comment header lists the source and date', () => {
+  assert.equal(build({ headerFormat: 'comment' }), '<!-- Source: https://example.com/docs/a -->\n\n<!-- Generated: 2025-06-10T04:00:00.000Z -->\n\n');
+  assert.equal(build({ headerFormat: 'comment', addSourceUrl: false, addDate: false }), '');
+});
+
+test('YAML front matter quotes values and leaves out empty fields', () => {
+  assert.equal(build({ headerFormat: 'yaml' }), [
+    '---',
+    'title: "Say \\"hi\\""',
+    'source: "https://example.com/docs/a"',
+    'language: "en"',
+    'fetched: "2025-06-10T04:00:00.000Z"',
+    '---',
+    '',
+    ''
+  ].join('\n'));
+});
+
+test('TOML front matter uses +++ and quotes keys that are not bare', () => {
+  const header = build({ headerFormat: 'toml', frontMatterTemplate: { title: '{{title}}', 'page url': '{{ url }}', team: 'docs' } });
+  assert.equal(header, '+++\ntitle = "Say \\"hi\\""\n"page url" = "https://example.com/docs/a"\nteam = "docs"\n+++\n\n');
+});
+
+test('addSourceUrl and addDate switch their fields off in front matter', () => {
+  const header = build({ headerFormat: 'yaml', addSourceUrl: false, addDate: false, frontMatterTemplate: { source: '{{url}}', fetched: '{{fetchedAt}}' } });
+  assert.equal(header, '');
+});
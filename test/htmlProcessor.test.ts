@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HtmlProcessor } from '../src/htmlProcessor';
+import { resolveConfig } from '../src/config';
+
+const config = resolveConfig({ selectors: { extractMainContent: true } });
+const paragraph = (word: string) => `<p>${`${word} text of a paragraph that is long enough to count. `.repeat(6)}</p>`;
+
+/**
+ * Page with the article in a block of the given class, next to a block of links
+ * that is only kept when no block scores high enough to be the main content
+ */
+function page(articleClass: string): string {
+  return `<html><body>
+    <div class="${articleClass}">${paragraph('Article').repeat(6)}</div>
+    <div class="other"><a href="/other">${paragraph('Other')}</a></div>
+  </body></html>`;
+}
+
+test('main content extraction keeps only the highest scoring block', () => {
+  const html = HtmlProcessor.process(page('story'), config);
+  assert.match(html, /Article text/);
+  assert.doesNotMatch(html, /Other text/);
+});
+
+test('ad classes lower the score of a block', () => {
+  for (const className of ['ads', 'ad', 'ad-slot', 'top-ad', 'sidebar_ads']) {
+    // Without a main content block the full body is kept
+    const html = HtmlProcessor.process(page(className), config);
+    assert.match(html, /Other text/, className);
+  }
+});
+
+test('words that contain "ads" or "ad-" are not ad hints', () => {
+  for (const className of ['downloads', 'threads', 'load-more', 'headline']) {
+    const html = HtmlProcessor.process(page(className), config);
+    assert.doesNotMatch(html, /Other text/, className);
+  }
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobQueue } from '../src/jobQueue';
+
+test('saves that overlap are written one after the other, the last with the latest state', async t => {
+  const errors: string[] = [];
+  t.mock.method(console, 'error', (line: string) => errors.push(line));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+  try {
+    const statePath = path.join(dir, 'state.json');
+    const jobs = JobQueue.create(statePath, 'test');
+    jobs.add('https://example.com/a');
+    const first = jobs.save();
+    jobs.add('https://example.com/b');
+    await Promise.all([first, jobs.save()]);
+
+    assert.deepEqual(errors, []);
+    assert.ok(!fs.existsSync(`${statePath}.tmp`));
+    const loaded = await JobQueue.load(statePath, 'test');
+    assert.equal(loaded?.size, 2);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('counts follow the jobs through every state change', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+  try {
+    const statePath = path.join(dir, 'state.json');
+    const jobs = JobQueue.create(statePath, 'test');
+    ['a', 'b', 'c', 'd'].forEach(name => jobs.add(`https://example.com/${name}`));
+    assert.equal(jobs.add('https://example.com/a'), false);
+    assert.deepEqual(jobs.counts(), { pending: 4, done: 0, failed: 0, skipped: 0 });
+
+    jobs.mark('https://example.com/a', 'done');
+    jobs.mark('https://example.com/b', 'failed', 'HTTP 500');
+    jobs.mark('https://example.com/c', 'skipped', 'Disallowed by robots.txt');
+    jobs.mark('https://example.com/d', 'failed', 'HTTP 500');
+    jobs.mark('https://example.com/d', 'done');
+    assert.deepEqual(jobs.counts(), { pending: 0, done: 2, failed: 1, skipped: 1 });
+    assert.equal(jobs.finished, 4);
+
+    assert.equal(jobs.resetFailed(), 1);
+    assert.deepEqual(jobs.counts(), { pending: 1, done: 2, failed: 0, skipped: 1 });
+    assert.equal(jobs.finished, 3);
+
+    // A loaded queue starts from the counts of the saved states
+    await jobs.save();
+    assert.deepEqual((await JobQueue.load(statePath, 'test'))?.counts(), { pending: 1, done: 2, failed: 0, skipped: 1 });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LinkRewriter } from '../src/linkRewriter';
+
+const pages = new Map([
+  ['https://e.com/docs/', 'out/docs/index.md'],
+  ['https://e.com/docs/a', 'out/docs/a.md'],
+  ['https://e.com/docs/guide/b', 'out/docs/guide/b.md'],
+  ['https://e.com/docs/c', 'out/docs/c (1).md'],
+  ['https://e.com/docs/d_(x)', 'out/docs/d_(x).md']
+]);
+const rewriter = new LinkRewriter(pages);
+const rewrite = (markdown: string) => rewriter.rewrite(markdown, 'https://e.com/docs/a', 'out/docs/a.md');
+
+test('links to converted pages become relative Markdown paths', () => {
+  assert.equal(rewrite('[B](https://e.com/docs/guide/b)'), '[B](guide/b.md)');
+  assert.equal(rewrite('[Home](/docs/ "Docs home")'), '[Home](index.md "Docs home")');
+  assert.equal(rewrite('[B](guide/b#setup)'), '[B](guide/b.md#setup)');
+});
+
+test('paths are escaped so they stay valid link targets', () => {
+  assert.equal(rewrite('[C](https://e.com/docs/c)'), '[C](c%20%281%29.md)');
+});
+
+test('URLs with parentheses are read whole, escaped or balanced', () => {
+  assert.equal(rewrite('[D](https://e.com/docs/d_\\(x\\))'), '[D](d_%28x%29.md)');
+  assert.equal(rewrite('[D](/docs/d_(x) "D (page)") and [B](guide/b)'), '[D](d_%28x%29.md "D (page)") and [B](guide/b.md)');
+  assert.equal(rewrite('[Foo](/wiki/Foo_(bar))'), '[Foo](https://e.com/wiki/Foo_\\(bar\\))');
+  assert.equal(rewrite('[Foo](https://w.org/wiki/Foo_\\(bar\\))'), '[Foo](https://w.org/wiki/Foo_\\(bar\\))');
+});
+
+test('URLs match regardless of www., trailing slash and fragment', () => {
+  assert.equal(rewrite('[Home](https://www.e.com/docs)'), '[Home](index.md)');
+  assert.equal(LinkRewriter.urlKey('https://www.e.com/docs/#top'), 'e.com/docs');
+  assert.equal(LinkRewriter.urlKey('not a url'), null);
+});
+
+test('links to the page itself keep only the fragment', () => {
+  assert.equal(rewrite('[Top](#top)'), '[Top](#top)');
+  assert.equal(rewrite('[Top](https://e.com/docs/a#top)'), '[Top](#top)');
+  assert.equal(rewrite('[Self](https://e.com/docs/a)'), '[Self](a.md)');
+});
+
+test('links to pages that were not converted become absolute', () => {
+  assert.equal(rewrite('[Other](../other)'), '[Other](https://e.com/other)');
+  assert.equal(rewrite('[Mail](mailto:a@e.com)'), '[Mail](mailto:a@e.com)');
+});
+
+test('images and reference definitions', () => {
+  assert.equal(rewrite('![B](https://e.com/docs/guide/b)'), '![B](https://e.com/docs/guide/b)');
+  assert.equal(rewrite('[b]: https://e.com/docs/guide/b "Guide"'), '[b]: guide/b.md "Guide"');
+});
+
+test('links in fenced code blocks are left alone', () => {
+  const markdown = '```md\n[B](https://e.com/docs/guide/b)\n```\n[B](https://e.com/docs/guide/b)';
+  assert.equal(rewrite(markdown), '```md\n[B](https://e.com/docs/guide/b)\n```\n[B](guide/b.md)');
+});
+
+test('links in inline code spans are left alone', () => {
+  assert.equal(rewrite('Write `[y](https://e.com/docs/guide/b)` to link'), 'Write `[y](https://e.com/docs/guide/b)` to link');
+  assert.equal(rewrite('``a `[y](/docs/)` b`` and [y](/docs/)'), '``a `[y](/docs/)` b`` and [y](index.md)');
+});
+
+test('links around code spans are still rewritten', () => {
+  assert.equal(rewrite('[`B`](https://e.com/docs/guide/b) and `code`'), '[`B`](guide/b.md) and `code`');
+  assert.equal(rewrite('Unclosed ` tick [B](/docs/guide/b)'), 'Unclosed ` tick [B](guide/b.md)');
+});
+
+test('rewriting files twice leaves links from the first run alone', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-rewriter-'));
+  try {
+    const a = path.join(dir, 'docs', 'a.md');
+    const b = path.join(dir, 'docs', 'guide', 'b.md');
+    fs.mkdirSync(path.dirname(b), { recursive: true });
+    fs.writeFileSync(a, '[B](https://e.com/docs/guide/b)');
+    fs.writeFileSync(b, '[A](../a)');
+
+    const files = new LinkRewriter(new Map([['https://e.com/docs/a', a], ['https://e.com/docs/guide/b', b]]));
+    assert.equal(await files.rewriteAll(), 2);
+    assert.equal(fs.readFileSync(a, 'utf-8'), '[B](guide/b.md)');
+    assert.equal(fs.readFileSync(b, 'utf-8'), '[A](../a.md)');
+    assert.equal(await files.rewriteAll(), 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
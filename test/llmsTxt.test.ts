@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { LlmsPage, LlmsTxt } from '../src/llmsTxt';
+
+const OUT = 'out';
+
+/**
+ * Page saved below the output folder
+ */
+function page(url: string, file: string, fields: Partial<LlmsPage> = {}): LlmsPage {
+  return { url, filePath: path.join(OUT, ...file.split('/')), markdown: '', ...fields };
+}
+
+test('pages are grouped by the first segment of their path, root pages first', () => {
+  const pages = [
+    page('https://example.com/guide/install', 'guide/install.md', { title: 'Install [beta]', description: 'How to  install.' }),
+    page('https://example.com/about', 'about.md', { title: 'About' }),
+    page('https://example.com/guide/use%20it', 'guide/use it.md', { title: 'Use it', markdown: '# Use it\n\nUse it\n\nRun the [tool][1] with `--help`.\n\n[1]: https://example.com/tool' })
+  ];
+
+  assert.equal(LlmsTxt.buildIndex(pages, { enabled: true, title: 'Example', summary: 'Docs of the example tool.' }, OUT), [
+    '# Example',
+    '',
+    '> Docs of the example tool.',
+    '',
+    '## Pages',
+    '',
+    '- [About](about.md)',
+    '',
+    '## guide',
+    '',
+    '- [Install \\[beta\\]](guide/install.md): How to install.',
+    '- [Use it](guide/use%20it.md): Run the tool with --help.',
+    ''
+  ].join('\n'));
+});
+
+test('pages of several sites are grouped per host and the title lists the hosts', () => {
+  const pages = [
+    page('https://b.com/docs/x', 'b.com/docs/x.md', { title: 'X' }),
+    page('https://a.com/', 'a.com/index.md', { title: 'A' })
+  ];
+  const index = LlmsTxt.buildIndex(pages, { enabled: true, title: '', summary: '' }, OUT);
+  assert.equal(index, '# b.com, a.com\n\n## a.com\n\n- [A](a.com/index.md)\n\n## b.com - docs\n\n- [X](b.com/docs/x.md)\n');
+});
+
+test('long descriptions are cut at a word', () => {
+  const description = `${'word '.repeat(60)}end`;
+  const index = LlmsTxt.buildIndex([page('https://example.com/a', 'a.md', { title: 'A', description })], { enabled: true, title: 'T', summary: '' }, OUT);
+  const line = index.split('\n').find(item => item.startsWith('- '))!;
+  assert.match(line, /^- \[A\]\(a\.md\): (word ){39}word…$/);
+});
+
+test('llms-full.txt joins every page under its title and source', () => {
+  const pages = [
+    page('https://example.com/a', 'a.md', { title: 'A', markdown: '\nText of A.\n' }),
+    page('https://example.com/docs/b', 'docs/b.md', { markdown: 'Text of B.' })
+  ];
+  assert.equal(LlmsTxt.buildFull(pages), '# A\n\nSource: https://example.com/a\n\nText of A.\n\n---\n\n# b\n\nSource: https://example.com/docs/b\n\nText of B.\n');
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { LocalSource } from '../src/localSource';
+
+/**
+ * Write files into a temporary folder
+ * @param files Relative path -> content
+ * @returns Folder path
+ */
+function makeFolder(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-'));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+const FILES = {
+  'index.html': '<h1>Home</h1>',
+  'guide/intro.htm': '<h1>Intro</h1>',
+  'guide/deep/page one.html': '<h1>Deep</h1>',
+  'guide/notes.txt': 'notes',
+  'blog/post.html': '<h1>Post</h1>'
+};
+
+test('files matching the globs are listed as URLs under the base URL', async () => {
+  const dir = makeFolder(FILES);
+  try {
+    const source = new LocalSource(dir, 'https://example.com/docs');
+    assert.deepEqual(await source.listUrls(['**/*.{html,htm}']), [
+      'https://example.com/docs/blog/post.html',
+      'https://example.com/docs/guide/deep/page%20one.html',
+      'https://example.com/docs/guide/intro.htm',
+      'https://example.com/docs/index.html'
+    ]);
+    assert.deepEqual(await source.listUrls(['guide/*.ht?', '*.HTML']), [
+      'https://example.com/docs/guide/intro.htm',
+      'https://example.com/docs/index.html'
+    ]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('without a base URL the files get file:// URLs', async () => {
+  const dir = makeFolder(FILES);
+  try {
+    const [url] = await new LocalSource(dir, '').listUrls(['index.html']);
+    assert.equal(url, pathToFileURL(path.join(dir, 'index.html')).toString());
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('page URLs map back to their file and to an output path that mirrors the folder', async () => {
+  const dir = makeFolder(FILES);
+  try {
+    const source = new LocalSource(dir, 'https://example.com/docs/');
+    const url = 'https://example.com/docs/guide/deep/page%20one.html';
+    const page = await source.read(url);
+    assert.equal(page.html, '<h1>Deep</h1>');
+    assert.ok(page.modifiedAt instanceof Date);
+
+    assert.deepEqual(source.getOutputPaths(url, 'out'), {
+      dirPath: path.join('out', 'guide', 'deep'),
+      filePath: path.join('out', 'guide', 'deep', 'page one.md')
+    });
+    assert.throws(() => source.getOutputPaths('https://example.com/other/a.html', 'out'), /not under the base URL/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,109 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Converter } from '../src/converter';
+import { RunManifest } from '../src/manifest';
+import { Config, DEFAULT_CONFIG } from '../src/config';
+
+/**
+ * Configuration writing to a folder
+ */
+function configFor(dir: string): Config {
+  return { ...JSON.parse(JSON.stringify(DEFAULT_CONFIG)), outputDir: dir };
+}
+
+/**
+ * Convert the URLs in dir/urls.txt into dir/out
+ * @returns Lines logged by the run
+ */
+async function convert(t: TestContext, dir: string): Promise<string[]> {
+  const lines: string[] = [];
+  t.mock.method(console, 'log', (line: string) => lines.push(line));
+  await new Converter({
+    outputDir: path.join(dir, 'out'),
+    urlSource: { type: 'file', file: path.join(dir, 'urls.txt') },
+    robots: { respect: false },
+    fileOptions: { addDate: false, useDomainSubfolders: false }
+  }).run();
+  return lines;
+}
+
+test('entries are saved and loaded with the same conversion settings', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  try {
+    const outputPath = path.join(dir, 'a.md');
+    fs.writeFileSync(outputPath, '# A');
+    const entry = { url: 'https://example.com/a', outputPath, etag: '"v1"', contentHash: RunManifest.hashContent('# A'), fetchedAt: '2025-06-10T04:00:00.000Z' };
+
+    const manifest = await RunManifest.load(configFor(dir));
+    assert.equal(manifest.get(entry.url), undefined);
+    manifest.set(entry);
+    await manifest.save();
+
+    const loaded = await RunManifest.load(configFor(dir));
+    assert.deepEqual(loaded.get(entry.url), entry);
+
+    // Entries whose output file is gone are not used
+    fs.rmSync(outputPath);
+    assert.equal(loaded.get(entry.url), undefined);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('entries are dropped when the conversion settings change', async t => {
+  t.mock.method(console, 'log', () => {});
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  try {
+    const outputPath = path.join(dir, 'a.md');
+    fs.writeFileSync(outputPath, '# A');
+    const manifest = await RunManifest.load(configFor(dir));
+    manifest.set({ url: 'https://example.com/a', outputPath, contentHash: 'x', fetchedAt: '2025-06-10T04:00:00.000Z' });
+    await manifest.save();
+
+    const changed = configFor(dir);
+    changed.turndownOptions.headingStyle = 'setext';
+    assert.equal((await RunManifest.load(changed)).get('https://example.com/a'), undefined);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a re-run sends the validators of the last run and keeps pages answered with 304', async t => {
+  const requests: (string | undefined)[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.headers['if-none-match']);
+    if (req.headers['if-none-match'] === '"v1"') {
+      res.writeHead(304).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html', ETag: '"v1"' }).end('<html><head><title>Page</title></head><body><h1>Page</h1><p>Text.</p></body></html>');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'urls.txt'), `http://127.0.0.1:${(server.address() as AddressInfo).port}/docs/page\n`);
+    await convert(t, dir);
+    const filePath = path.join(dir, 'out', 'docs', 'page.md');
+    assert.match(fs.readFileSync(filePath, 'utf-8'), /# Page/);
+
+    // Mark the file, a page answered with 304 must not be written again
+    fs.appendFileSync(filePath, '\nkept');
+    const lines = await convert(t, dir);
+    assert.deepEqual(requests, [undefined, '"v1"']);
+    assert.ok(lines.some(line => /Not modified/.test(line)));
+    assert.match(fs.readFileSync(filePath, 'utf-8'), /\nkept$/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SelectorProfiles } from '../src/profiles';
+import { resolveConfig, SelectorProfile } from '../src/config';
+
+const profiles: SelectorProfile[] = [
+  { name: 'docs', host: '*.example.com', path: '/docs/**', selectors: { include: ['main'], exclude: ['.toc', 'nav'], removeAttributes: false } },
+  { name: 'blog', host: 'blog.example.com', turndownOptions: { headingStyle: 'setext' } },
+  { name: 'any', path: '/print/*' }
+];
+
+test('the first profile whose host and path globs match is used', () => {
+  assert.equal(SelectorProfiles.match(profiles, 'https://www.example.com/docs/guide/intro')?.name, 'docs');
+  assert.equal(SelectorProfiles.match(profiles, 'https://blog.example.com/docs/a')?.name, 'docs');
+  assert.equal(SelectorProfiles.match(profiles, 'https://blog.example.com/posts/a')?.name, 'blog');
+  assert.equal(SelectorProfiles.match(profiles, 'https://other.com/print/a%20b')?.name, 'any');
+  assert.equal(SelectorProfiles.match(profiles, 'https://example.com/docs/a'), null);
+  assert.equal(SelectorProfiles.match(profiles, 'https://other.com/print/a/b'), null);
+  assert.equal(SelectorProfiles.match(profiles, 'not a url'), null);
+});
+
+test('selector lists of the profile are added to the global ones, other fields replace them', () => {
+  const config = resolveConfig({ profiles, selectors: { exclude: ['nav'], include: ['article', 'main'] } });
+
+  const docs = SelectorProfiles.resolve(config, 'https://www.example.com/docs/a');
+  assert.equal(docs.profile, 'docs');
+  assert.deepEqual(docs.config.selectors.include, ['article', 'main']);
+  assert.deepEqual(docs.config.selectors.exclude, ['nav', '.toc']);
+  assert.deepEqual(config.selectors.exclude, ['nav']);
+  assert.equal(docs.config.selectors.removeAttributes, false);
+  assert.deepEqual(docs.config.turndownOptions, config.turndownOptions);
+
+  const blog = SelectorProfiles.resolve(config, 'https://blog.example.com/posts/a');
+  assert.equal(blog.config.turndownOptions.headingStyle, 'setext');
+  assert.equal(blog.config.turndownOptions.bulletListMarker, config.turndownOptions.bulletListMarker);
+  assert.deepEqual(blog.config.selectors, config.selectors);
+});
+
+test('URLs without a profile keep the configuration of the run', () => {
+  const config = resolveConfig({ profiles });
+  assert.deepEqual(SelectorProfiles.resolve(config, 'https://other.com/'), { config, profile: null });
+});
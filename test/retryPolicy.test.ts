@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RetryPolicy } from '../src/retryPolicy';
+import { resolveConfig } from '../src/config';
+
+const config = resolveConfig({ retryAttempts: 2, retryDelay: 1, retry: { jitter: 0, circuitBreakerThreshold: 0 } });
+
+/**
+ * Error as axios throws it for a response status
+ */
+function httpError(status: number, headers: Record<string, string> = {}): any {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response: { status, headers } });
+}
+
+/**
+ * Error as axios throws it for a network failure
+ */
+function networkError(code: string): any {
+  return Object.assign(new Error(code), { isAxiosError: true, code });
+}
+
+test('timeouts, network errors, 5xx and the retry statuses are retryable', () => {
+  const policy = new RetryPolicy(config);
+  assert.equal(policy.isRetryable(networkError('ETIMEDOUT')), true);
+  assert.equal(policy.isRetryable(networkError('ECONNRESET')), true);
+  assert.equal(policy.isRetryable(httpError(503)), true);
+  assert.equal(policy.isRetryable(httpError(429)), true);
+  assert.equal(policy.isRetryable(httpError(404)), false);
+  assert.equal(policy.isRetryable(networkError('ENOTFOUND')), false);
+  assert.equal(policy.isRetryable(new Error('parse error')), false);
+});
+
+test('retryable failures are retried until the request succeeds', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const policy = new RetryPolicy(config);
+  let attempts = 0;
+  const { result, retries } = await policy.execute('https://example.com/a', async () => {
+    if (++attempts < 3) throw httpError(502);
+    return 'ok';
+  });
+  assert.deepEqual({ result, retries }, { result: 'ok', retries: 2 });
+});
+
+test('the last error is thrown with the number of retries made', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const policy = new RetryPolicy(config);
+  await assert.rejects(policy.execute('https://example.com/a', async () => { throw networkError('ECONNREFUSED'); }), { code: 'ECONNREFUSED', retries: 2 });
+  await assert.rejects(policy.execute('https://example.com/b', async () => { throw httpError(404); }), { retries: 0 });
+});
+
+test('Retry-After is waited for, up to maxRetryAfter', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const policy = new RetryPolicy(resolveConfig({ retryAttempts: 1, retryDelay: 1, retry: { jitter: 0, maxRetryAfter: 50 } }));
+  let attempts = 0;
+  const start = Date.now();
+  await policy.execute('https://example.com/a', async () => {
+    if (++attempts === 1) throw httpError(429, { 'retry-after': '3600' });
+  });
+  const elapsed = Date.now() - start;
+  assert.ok(elapsed >= 45 && elapsed < 1000, `${elapsed}ms`);
+});
+
+test('a host that keeps failing is not requested until the cooldown ends', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const policy = new RetryPolicy(resolveConfig({ retryAttempts: 5, retryDelay: 1, retry: { jitter: 0, circuitBreakerThreshold: 2, circuitBreakerCooldown: 60000 } }));
+  let attempts = 0;
+  await assert.rejects(policy.execute('https://example.com/a', async () => { attempts++; throw httpError(500); }), { retries: 1 });
+  await assert.rejects(policy.execute('https://example.com/b', async () => { attempts++; }), /failed 2 times in a row/);
+  assert.equal(attempts, 2);
+  // Other hosts are not affected
+  assert.deepEqual(await policy.execute('https://other.com/', async () => 'ok'), { result: 'ok', retries: 0 });
+});
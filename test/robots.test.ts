@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RobotsTxt } from '../src/robots';
+
+const AGENT = 'crawl-web-to-md';
+
+test('the longest matching rule wins and Allow wins ties', () => {
+  const robots = new RobotsTxt([
+    'User-agent: *',
+    'Disallow: /docs/',
+    'Allow: /docs/public/',
+    'Disallow: /page',
+    'Allow: /page'
+  ].join('\n'));
+
+  assert.deepEqual(robots.check('https://e.com/docs/private', AGENT), { allowed: false, reason: 'robots.txt Disallow: /docs/' });
+  assert.equal(robots.check('https://e.com/docs/public/a', AGENT).allowed, true);
+  assert.equal(robots.check('https://e.com/page', AGENT).allowed, true);
+  assert.equal(robots.check('https://e.com/blog/', AGENT).allowed, true);
+});
+
+test('* and $ patterns match like Google and RFC 9309', () => {
+  const robots = new RobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /search*q=');
+
+  assert.equal(robots.check('https://e.com/files/a.pdf', AGENT).allowed, false);
+  assert.equal(robots.check('https://e.com/files/a.pdf?x=1', AGENT).allowed, true);
+  assert.equal(robots.check('https://e.com/search?q=test', AGENT).allowed, false);
+});
+
+test('an empty Disallow allows everything', () => {
+  const robots = new RobotsTxt('User-agent: *\nDisallow:');
+  assert.equal(robots.check('https://e.com/anything', AGENT).allowed, true);
+});
+
+test('the group naming the agent replaces the * group', () => {
+  const robots = new RobotsTxt([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: Crawl-Web-To-MD',
+    'Disallow: /private/',
+    'Crawl-delay: 2'
+  ].join('\n'));
+
+  assert.equal(robots.check('https://e.com/docs/', AGENT).allowed, true);
+  assert.equal(robots.check('https://e.com/private/', AGENT).allowed, false);
+  assert.equal(robots.getCrawlDelay(AGENT), 2);
+});
+
+test('consecutive User-agent lines share one group', () => {
+  const robots = new RobotsTxt('User-agent: other\nUser-agent: crawl-web-to-md\nDisallow: /shared/');
+  assert.equal(robots.check('https://e.com/shared/', AGENT).allowed, false);
+});
+
+test('a version after the product token is ignored', () => {
+  const robots = new RobotsTxt('User-agent: crawl-web-to-md/1.0\nDisallow: /');
+  assert.equal(robots.check('https://e.com/', AGENT).allowed, false);
+});
+
+test('groups naming part of the product token do not apply', () => {
+  const robots = new RobotsTxt([
+    'User-agent: web',
+    'Disallow: /',
+    '',
+    'User-agent: crawl',
+    'Disallow: /',
+    '',
+    'User-agent: md',
+    'Crawl-delay: 30',
+    'Disallow: /'
+  ].join('\n'));
+
+  assert.equal(robots.check('https://e.com/docs/', AGENT).allowed, true);
+  assert.equal(robots.getCrawlDelay(AGENT), 0);
+});
+
+test('sitemaps are collected from anywhere in the file', () => {
+  const robots = new RobotsTxt('Sitemap: https://e.com/a.xml\nUser-agent: *\nDisallow: /x\nSitemap: https://e.com/b.xml');
+  assert.deepEqual(robots.sitemaps, ['https://e.com/a.xml', 'https://e.com/b.xml']);
+});
+
+test('an unreachable robots.txt disallows everything', () => {
+  const robots = new RobotsTxt('', true);
+  assert.deepEqual(robots.check('https://e.com/', AGENT), { allowed: false, reason: 'robots.txt could not be fetched' });
+});
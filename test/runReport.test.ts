@@ -0,0 +1,124 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { AddressInfo } from 'net';
+import { RunReport, RunReporter, UrlReport } from '../src/runReport';
+import { resolveConfig } from '../src/config';
+
+/**
+ * Outcome of a URL, with the fields a test doesn't care about left empty
+ */
+function entry(url: string, fields: Partial<UrlReport> = {}): UrlReport {
+  return { url, status: 'saved', httpStatus: 200, finalUrl: url, outputPath: null, bytes: null, charset: null, wordCount: null, durationMs: 1, retries: 0, error: null, ...fields };
+}
+
+test('totals count the URLs per status and add up bytes, words and retries', () => {
+  const reporter = new RunReporter('file urls.txt');
+  reporter.add(entry('https://example.com/a', { bytes: 100, wordCount: 10, retries: 1 }));
+  reporter.add(entry('https://example.com/b', { status: 'unchanged', httpStatus: 304 }));
+  reporter.add(entry('https://example.com/c', { status: 'failed', httpStatus: 500, retries: 2, error: 'HTTP 500' }));
+  reporter.add(entry('https://example.com/d', { status: 'skipped', httpStatus: null, error: 'Disallowed by robots.txt' }));
+
+  const report = reporter.build();
+  assert.equal(report.source, 'file urls.txt');
+  assert.deepEqual(report.totals, { urls: 4, saved: 1, unchanged: 1, skipped: 1, failed: 1, bytes: 100, words: 10, retries: 3 });
+  assert.ok(report.durationMs >= 0);
+});
+
+test('CSV fields with commas, quotes or line breaks are quoted', () => {
+  const report = new RunReporter('').build();
+  report.urls = [entry('https://example.com/a,b', { error: 'said "no"\nthen left', httpStatus: null })];
+  assert.equal(RunReporter.toCsv(report), [
+    'url,status,httpStatus,finalUrl,outputPath,bytes,charset,wordCount,durationMs,retries,error',
+    '"https://example.com/a,b",saved,,"https://example.com/a,b",,,,,1,0,"said ""no""\nthen left"',
+    ''
+  ].join('\r\n'));
+});
+
+test('the report is written as JSON and, if configured, as CSV', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-'));
+  try {
+    const reporter = new RunReporter('test');
+    reporter.add(entry('https://example.com/a'));
+    const report = reporter.build();
+
+    const config = resolveConfig({ outputDir: path.join(dir, 'out'), report: { enabled: true, file: 'run.json', csvFile: 'run.csv' } });
+    const written = await RunReporter.write(report, config);
+    assert.deepEqual(written, [path.join(dir, 'out', 'run.json'), path.join(dir, 'out', 'run.csv')]);
+    assert.deepEqual(JSON.parse(fs.readFileSync(written[0], 'utf-8')), report);
+    assert.equal(fs.readFileSync(written[1], 'utf-8'), RunReporter.toCsv(report));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('words are tokens with a letter or digit', () => {
+  assert.equal(RunReporter.countWords('# Title\n\n- one, two — 3 `x`\n\n---\n'), 6);
+});
+
+/**
+ * Serve /ok as a page and answer anything else with 500
+ * @returns Base URL of the server, which is closed when the test ends
+ */
+async function serve(t: TestContext): Promise<string> {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/ok') {
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<h1>OK</h1><p>Fine.</p>');
+    } else {
+      res.writeHead(500).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Run the CLI on a URL file
+ * @returns Exit code and the report written to the output directory, if any
+ */
+async function runCli(dir: string, urls: string[]): Promise<{ code: number; report: RunReport | null }> {
+  const urlFile = path.join(dir, 'urls.txt');
+  const configFile = path.join(dir, 'config.json');
+  const outputDir = path.join(dir, 'out');
+  fs.writeFileSync(urlFile, urls.join('\n'));
+  fs.writeFileSync(configFile, '{}');
+  fs.rmSync(outputDir, { recursive: true, force: true });
+
+  const args = ['-r', require.resolve('ts-node/register'), path.join(__dirname, '..', 'src', 'cli.ts'),
+    `--config=${configFile}`, `--url-file=${urlFile}`, `--output-dir=${outputDir}`, '--ignore-robots', '--retries=0'];
+  const code = await new Promise<number>(resolve => {
+    execFile(process.execPath, args, { env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' }, timeout: 60000 }, error => {
+      resolve(error ? (typeof error.code === 'number' ? error.code : -1) : 0);
+    });
+  });
+
+  const reportPath = path.join(outputDir, '.run-report.json');
+  return { code, report: fs.existsSync(reportPath) ? JSON.parse(fs.readFileSync(reportPath, 'utf-8')) : null };
+}
+
+test('the exit code tells full success, partial failure and total failure apart', async t => {
+  const baseUrl = await serve(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-cli-'));
+  try {
+    const success = await runCli(dir, [`${baseUrl}/ok`]);
+    assert.equal(success.code, 0);
+    assert.deepEqual(success.report?.urls.map(url => [url.status, url.httpStatus]), [['saved', 200]]);
+
+    const partial = await runCli(dir, [`${baseUrl}/ok`, `${baseUrl}/broken`]);
+    assert.equal(partial.code, 3);
+    assert.equal(partial.report?.totals.failed, 1);
+
+    assert.equal((await runCli(dir, [`${baseUrl}/broken`])).code, 4);
+    assert.equal((await runCli(dir, [])).code, 4);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
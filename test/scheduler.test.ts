@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Scheduler } from '../src/scheduler';
+import { resolveConfig } from '../src/config';
+
+/**
+ * Run URLs through a scheduler, each taking a few milliseconds
+ * @returns Order the URLs started in and the most that ran at once, overall and per host
+ */
+async function runPool(scheduler: Scheduler, urls: string[], extra: Record<string, string[]> = {}) {
+  const queue = [...urls];
+  const started: string[] = [];
+  const active = new Map<string, number>();
+  let running = 0;
+  let maxRunning = 0;
+  const maxPerHost = new Map<string, number>();
+
+  await scheduler.run(accepts => {
+    const index = queue.findIndex(url => accepts(url));
+    return index === -1 ? null : queue.splice(index, 1)[0];
+  }, url => url, async url => {
+    const host = new URL(url).host;
+    started.push(url);
+    running++;
+    active.set(host, (active.get(host) || 0) + 1);
+    maxRunning = Math.max(maxRunning, running);
+    maxPerHost.set(host, Math.max(maxPerHost.get(host) || 0, active.get(host)!));
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    // Items found while processing are taken once this one finishes
+    queue.push(...(extra[url] || []));
+
+    running--;
+    active.set(host, active.get(host)! - 1);
+  });
+
+  return { started, maxRunning, maxPerHost: Object.fromEntries(maxPerHost) };
+}
+
+test('every item is processed, including those added while the pool runs', async () => {
+  const scheduler = new Scheduler(resolveConfig({ maxConcurrent: 3, rateLimit: { maxConcurrentPerHost: 0 } }));
+  const result = await runPool(scheduler, ['https://a.com/1', 'https://a.com/2'], { 'https://a.com/1': ['https://a.com/3', 'https://a.com/4'] });
+  assert.deepEqual(result.started.sort(), ['https://a.com/1', 'https://a.com/2', 'https://a.com/3', 'https://a.com/4']);
+  assert.ok(result.maxRunning <= 3);
+});
+
+test('each host gets at most maxConcurrentPerHost workers while other hosts go ahead', async () => {
+  const scheduler = new Scheduler(resolveConfig({ maxConcurrent: 4, rateLimit: { maxConcurrentPerHost: 1 } }));
+  const result = await runPool(scheduler, ['https://a.com/1', 'https://a.com/2', 'https://a.com/3', 'https://b.com/1', 'https://b.com/2']);
+  assert.deepEqual(result.maxPerHost, { 'a.com': 1, 'b.com': 1 });
+  // b.com doesn't wait for the queued a.com items
+  assert.deepEqual(result.started.slice(0, 2), ['https://a.com/1', 'https://b.com/1']);
+});
+
+test('a failing item is logged and the pool carries on', async t => {
+  const errors: string[] = [];
+  t.mock.method(console, 'error', (line: string) => errors.push(line));
+  const scheduler = new Scheduler(resolveConfig({ maxConcurrent: 2 }));
+  const queue = ['https://a.com/bad', 'https://a.com/good'];
+  const done: string[] = [];
+
+  await scheduler.run(() => queue.shift() ?? null, url => url, async url => {
+    if (url.endsWith('bad')) throw new Error('boom');
+    done.push(url);
+  });
+  assert.deepEqual(done, ['https://a.com/good']);
+  assert.deepEqual(errors, ['❌ Error processing https://a.com/bad: boom']);
+});
+
+test('requests to a host are spaced by requestsPerSecond after a burst', async () => {
+  const scheduler = new Scheduler(resolveConfig({ rateLimit: { requestsPerSecond: 20 } }));
+  const start = Date.now();
+  await Promise.all(Array.from({ length: 22 }, () => scheduler.throttle('https://a.com/')));
+  const elapsed = Date.now() - start;
+  // 20 requests go at once, the last two wait 50ms each
+  assert.ok(elapsed >= 90 && elapsed < 1000, `${elapsed}ms`);
+
+  // Other hosts have their own bucket
+  const other = Date.now();
+  await scheduler.throttle('https://b.com/');
+  assert.ok(Date.now() - other < 40);
+});
+
+test('a rate of 0 doesn\'t limit requests', async () => {
+  const scheduler = new Scheduler(resolveConfig({ rateLimit: { requestsPerSecond: 0 } }));
+  const start = Date.now();
+  await Promise.all(Array.from({ length: 100 }, () => scheduler.throttle('https://a.com/')));
+  assert.ok(Date.now() - start < 200);
+});
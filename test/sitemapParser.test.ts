@@ -0,0 +1,96 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { SitemapParser } from '../src/sitemapParser';
+import { ConverterOptions, resolveConfig } from '../src/config';
+
+const urlset = (urls: string) => `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`;
+
+/**
+ * Serve a sitemap index that lists a gzip sitemap, a plain one and itself
+ * @returns Base URL of the server, which is closed when the test ends
+ */
+async function serveSitemaps(t: TestContext): Promise<string> {
+  const server = http.createServer((req, res) => {
+    const base = `http://${req.headers.host}`;
+    switch (req.url) {
+      case '/index.xml':
+        res.writeHead(200, { 'Content-Type': 'application/xml' }).end(`<?xml version="1.0"?>
+          <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            <sitemap><loc>${base}/pages.xml.gz</loc></sitemap>
+            <sitemap><loc>/posts.xml</loc></sitemap>
+            <sitemap><loc>${base}/index.xml</loc></sitemap>
+          </sitemapindex>`);
+        return;
+      case '/pages.xml.gz':
+        // Served as a file, not with Content-Encoding
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(zlib.gzipSync(urlset(`
+          <url><loc>${base}/about</loc><lastmod>2025-01-01</lastmod><priority>0.9</priority><changefreq>YEARLY</changefreq></url>
+          <url><loc> ${base}/contact </loc></url>`)));
+        return;
+      case '/posts.xml':
+        res.writeHead(200, { 'Content-Type': 'application/xml' }).end(urlset(`
+          <url><loc>${base}/posts/new</loc><lastmod>2025-06-01T10:00:00Z</lastmod><priority>0.3</priority></url>
+          <url><loc>${base}/posts/old</loc><lastmod>2024-01-01</lastmod><priority>7</priority></url>
+          <url><lastmod>2025-01-01</lastmod></url>`));
+        return;
+      case '/proxied.xml':
+        res.writeHead(203, { 'Content-Type': 'application/xml' }).end(urlset(`<url><loc>${base}/about</loc></url>`));
+        return;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Read a sitemap without rate limiting or output
+ */
+function parse(t: TestContext, url: string, options: ConverterOptions = {}) {
+  t.mock.method(console, 'log', () => {});
+  t.mock.method(console, 'warn', () => {});
+  t.mock.method(console, 'error', () => {});
+  return SitemapParser.parseFromUrl(url, resolveConfig({ ...options, rateLimit: { requestsPerSecond: 0 } }));
+}
+
+test('sitemap indexes are followed into gzip and plain sitemaps, in index order and only once', async t => {
+  const baseUrl = await serveSitemaps(t);
+  assert.deepEqual(await parse(t, `${baseUrl}/index.xml`), [
+    { loc: `${baseUrl}/about`, lastmod: '2025-01-01', changefreq: 'yearly', priority: 0.9 },
+    { loc: `${baseUrl}/contact` },
+    { loc: `${baseUrl}/posts/new`, lastmod: '2025-06-01T10:00:00Z', priority: 0.3 },
+    { loc: `${baseUrl}/posts/old`, lastmod: '2024-01-01', priority: 1 }
+  ]);
+});
+
+test('entries are filtered by lastmod and priority', async t => {
+  const baseUrl = await serveSitemaps(t);
+  const locs = async (sitemapFilter: ConverterOptions['sitemapFilter']) =>
+    (await parse(t, `${baseUrl}/index.xml`, { sitemapFilter })).map(entry => entry.loc.substring(baseUrl.length));
+
+  // Entries without a lastmod are kept, since the sitemap doesn't say when they changed
+  assert.deepEqual(await locs({ modifiedSince: '2025-02-01' }), ['/contact', '/posts/new']);
+  // Missing priorities count as 0.5
+  assert.deepEqual(await locs({ minPriority: 0.5 }), ['/about', '/contact', '/posts/old']);
+  assert.deepEqual(await locs({ modifiedSince: '2024-06-01', minPriority: 0.8 }), ['/about']);
+  // An invalid date is ignored
+  assert.equal((await locs({ modifiedSince: 'last week' })).length, 4);
+});
+
+test('any 2xx response is read', async t => {
+  const baseUrl = await serveSitemaps(t);
+  assert.deepEqual(await parse(t, `${baseUrl}/proxied.xml`), [{ loc: `${baseUrl}/about` }]);
+});
+
+test('a missing sitemap gives no entries', async t => {
+  const baseUrl = await serveSitemaps(t);
+  assert.deepEqual(await parse(t, `${baseUrl}/missing.xml`, { retryAttempts: 0 }), []);
+});
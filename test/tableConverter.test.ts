@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import TurndownService from 'turndown';
+import { TableConverter } from '../src/tableConverter';
+import { Config } from '../src/config';
+
+/**
+ * Convert HTML with the table rules added
+ */
+function convert(html: string, fallback: Config['tables']['fallback'] = 'html'): string {
+  const turndownService = new TurndownService();
+  TableConverter.addRules(turndownService, { fallback });
+  return turndownService.turndown(html);
+}
+
+test('tables with a header row become GFM tables', () => {
+  const markdown = convert(`<table>
+    <thead><tr><th>Name</th><th align="center">Type</th><th align="right">Size</th></tr></thead>
+    <tbody><tr><td>a</td><td>file</td><td>1</td></tr><tr><td>b</td><td>dir</td></tr></tbody>
+  </table>`);
+  assert.equal(markdown, [
+    '| Name | Type | Size |',
+    '| --- | :---: | ---: |',
+    '| a | file | 1 |',
+    '| b | dir | |'
+  ].join('\n'));
+});
+
+test('tables without a header row get an empty one', () => {
+  const markdown = convert('<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr></table>');
+  assert.equal(markdown, [
+    '|   |   |',
+    '| --- | --- |',
+    '| a | b |',
+    '| c | d |'
+  ].join('\n'));
+});
+
+test('pipes in cells are escaped', () => {
+  const markdown = convert('<table><tr><th>Operator</th></tr><tr><td>a | b</td></tr></table>');
+  assert.match(markdown, /\| a \\\| b \|/);
+});
+
+test('tables with merged cells fall back to HTML', () => {
+  const html = '<table><tbody><tr><th colspan="2">Both</th></tr><tr><td>a</td><td>b</td></tr></tbody></table>';
+  assert.equal(convert(html), html);
+});
+
+test('tables with merged cells fall back to a list', () => {
+  const markdown = convert('<table><tr><th rowspan="2">Key</th><th>a</th></tr><tr><td>b</td></tr></table>', 'list');
+  assert.equal(markdown, '- Key; a\n- b');
+});
+
+test('nested tables are flattened into the cell of the outer list', () => {
+  const markdown = convert('<table><tr><td>Outer</td><td><table><tr><td>x</td><td>y</td></tr></table></td></tr></table>', 'list');
+  assert.equal(markdown, '- Outer; x; y');
+});
+
+test('each table of a page is converted on its own', () => {
+  const markdown = convert(`
+    <table><tr><th>Simple</th></tr><tr><td>1</td></tr></table>
+    <table><tr><td colspan="2">Merged</td></tr></table>
+  `, 'list');
+  assert.equal(markdown, '| Simple |\n| --- |\n| 1 |\n\n- Merged');
+});
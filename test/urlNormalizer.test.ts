@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UrlNormalizer } from '../src/urlNormalizer';
+import { DEFAULT_CONFIG } from '../src/config';
+
+const options = DEFAULT_CONFIG.urlNormalization;
+
+test('tracking parameters and fragments are removed and the query sorted', () => {
+  const normalizer = new UrlNormalizer(options);
+  assert.equal(normalizer.normalize('HTTPS://Example.COM:443/a?utm_source=x&b=2&a=1&fbclid=y#top'), 'https://example.com/a?a=1&b=2');
+});
+
+test('queries that need no change keep their encoding', () => {
+  const normalizer = new UrlNormalizer(options);
+  assert.equal(normalizer.normalize('https://example.com/search?a=x%20y&q=a+b'), 'https://example.com/search?a=x%20y&q=a+b');
+});
+
+test('invalid URLs and disabled normalization leave the URL as it is', () => {
+  assert.equal(new UrlNormalizer(options).normalize('not a url'), 'not a url');
+  const disabled = new UrlNormalizer({ ...options, enabled: false });
+  assert.equal(disabled.normalize('https://example.com/a?utm_source=x#top'), 'https://example.com/a?utm_source=x#top');
+});
+
+test('www., trailing slash and scheme variants resolve to the first URL seen', (t) => {
+  t.mock.method(console, 'log', () => {});
+  const normalizer = new UrlNormalizer(options);
+  assert.equal(normalizer.resolve('https://www.example.com/docs/'), 'https://www.example.com/docs/');
+  assert.equal(normalizer.resolve('http://example.com/docs'), 'https://www.example.com/docs/');
+  assert.equal(normalizer.resolve('https://example.com/docs/?utm_medium=mail'), 'https://www.example.com/docs/');
+  assert.equal(normalizer.resolve('https://example.com/other'), 'https://example.com/other');
+});
+
+test('variants stay apart when their options are off', () => {
+  const normalizer = new UrlNormalizer({ ...options, ignoreWww: false, ignoreTrailingSlash: false });
+  assert.equal(normalizer.resolve('https://www.example.com/docs/'), 'https://www.example.com/docs/');
+  assert.equal(normalizer.resolve('https://example.com/docs/'), 'https://example.com/docs/');
+  assert.equal(normalizer.resolve('https://www.example.com/docs'), 'https://www.example.com/docs');
+});
+
+test('pages with the same canonical URL are duplicates', (t) => {
+  t.mock.method(console, 'log', () => {});
+  const normalizer = new UrlNormalizer(options);
+  assert.equal(normalizer.claim('https://example.com/a?ref=1', 'https://example.com/a'), null);
+  assert.equal(normalizer.claim('https://example.com/a?ref=2', 'https://example.com/a'), 'https://example.com/a?ref=1');
+  // Links to the canonical URL found later resolve to the converted page
+  assert.equal(normalizer.resolve('https://example.com/a'), 'https://example.com/a?ref=1');
+});
+
+test('the canonical URL names the file only when it differs and followCanonical is on', () => {
+  const normalizer = new UrlNormalizer(options);
+  assert.equal(normalizer.canonicalFor('https://example.com/a?ref=1', 'https://example.com/a#intro'), 'https://example.com/a');
+  assert.equal(normalizer.canonicalFor('https://example.com/a/', 'https://www.example.com/a'), null);
+  assert.equal(normalizer.canonicalFor('https://example.com/a', 'javascript:void(0)'), null);
+  assert.equal(new UrlNormalizer({ ...options, followCanonical: false }).canonicalFor('https://example.com/a?ref=1', 'https://example.com/a'), null);
+});